@@ -0,0 +1,73 @@
+import { Event, Position, Range, Uri } from "vscode";
+
+/**
+ * The API returned by the activation of the extension, for the other extensions:
+ *
+ * ```ts
+ * const extension = vscode.extensions.getExtension<TranslateApi>("funkyremi.vscode-google-translate");
+ * const api = await extension.activate();
+ * const { text } = await api.translate("Bonjour", { to: "en" });
+ * ```
+ *
+ * The translations use the provider, the proxy, the cache, the glossary and
+ * the translation memory configured by the user.
+ */
+export interface TranslateApi {
+    /** Incremented when the API changes in a way that breaks its callers */
+    readonly version: 1;
+
+    /** The code of the preferred language, nothing until the user picks one */
+    readonly preferredLanguage: string | undefined;
+
+    /** Fired with the code of the new preferred language */
+    readonly onDidChangePreferredLanguage: Event<string | undefined>;
+
+    /**
+     * Translates a text
+     *
+     * @param options `from` is detected when omitted, `to` is the preferred language by
+     * default. Both take a language code such as `ja`, a regional variant such as `pt-BR`
+     * or a name such as `Japanese`.
+     */
+    translate(text: string, options?: TranslateOptions): Promise<TranslateResult>;
+
+    /**
+     * Detects the language of a text
+     *
+     * @returns The language code, nothing when the provider can't tell
+     */
+    detectLanguage(text: string): Promise<string | undefined>;
+
+    /**
+     * Finds the comment, string literal or identifier at a position, as the hover
+     * translations do. Requires the `vscodeGoogleTranslate.HoverTranslations` setting,
+     * waits for the language server to start.
+     *
+     * @returns Nothing when there is no text to translate at the position
+     */
+    getTranslatableBlockAt(uri: Uri | string, position: Position): Promise<TranslatableBlock | undefined>;
+}
+
+export interface TranslateOptions {
+    from?: string;
+    to?: string;
+}
+
+export interface TranslateResult {
+    text: string;
+    /** The source language, given or detected */
+    from?: string;
+}
+
+export interface TranslatableBlock {
+    kind: "comment" | "string" | "identifier";
+    /**
+     * The text to translate: a comment without its delimiters, a string without
+     * its quotes and escapes, the words of an identifier
+     */
+    text: string;
+    /** Where the block is in the document, with the delimiters of a comment, without the quotes of a string */
+    range: Range;
+    /** The language of the block, such as the JavaScript of a Vue file */
+    languageId: string;
+}
@@ -0,0 +1,91 @@
+const vscode = require("vscode");
+
+/**
+ * Creates the API returned to the other extensions, see api.d.ts
+ *
+ * @param {vscode.ExtensionContext} context
+ * @param {{getClient: () => any, whenClientReady: () => Promise<void>, getProvider: () => import("../translation/providers").TranslateProvider, getLanguages: () => import("../translation/languages").LanguageRegistry}} services
+ * @returns {import("../api").TranslateApi}
+ */
+function createApi(context, services) {
+  // The code of the preferred language setting, a name before its migration
+  function readPreferredLanguage() {
+    return services
+      .getLanguages()
+      .resolve(
+        vscode.workspace
+          .getConfiguration("vscodeGoogleTranslate")
+          .get("preferredLanguage")
+      );
+  }
+
+  const onDidChangePreferredLanguage = new vscode.EventEmitter();
+  context.subscriptions.push(
+    onDidChangePreferredLanguage,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("vscodeGoogleTranslate.preferredLanguage")) {
+        onDidChangePreferredLanguage.fire(readPreferredLanguage());
+      }
+    })
+  );
+
+  return {
+    version: 1,
+
+    get preferredLanguage() {
+      return readPreferredLanguage();
+    },
+
+    onDidChangePreferredLanguage: onDidChangePreferredLanguage.event,
+
+    async translate(text, options = {}) {
+      // The codes the language list doesn't know are given to the provider as they are
+      const registry = services.getLanguages();
+      const from = registry.resolve(options.from) || options.from;
+      const to = registry.resolve(options.to) || options.to || readPreferredLanguage();
+      if (!to) {
+        throw new Error(
+          "No target language: pass `to` or set vscodeGoogleTranslate.preferredLanguage"
+        );
+      }
+      const res = await services.getProvider().translate(text, { from, to });
+      return { text: res.text, from: res.from || from };
+    },
+
+    detectLanguage(text) {
+      return services.getProvider().detect(text);
+    },
+
+    async getTranslatableBlockAt(uri, position) {
+      const client = services.getClient();
+      if (!client) {
+        throw new Error(
+          "Finding the comments requires vscodeGoogleTranslate.HoverTranslations to be enabled"
+        );
+      }
+      await services.whenClientReady();
+      // Opening the document sends it to the server
+      const document = await vscode.workspace.openTextDocument(
+        typeof uri === "string" ? vscode.Uri.parse(uri) : uri
+      );
+      const block = await client.sendRequest("translatableBlock", {
+        uri: document.uri.toString(),
+        position: { line: position.line, character: position.character },
+      });
+      if (!block) {
+        return undefined;
+      }
+      const { start, end } = block.range;
+      return {
+        kind: block.kind,
+        text: block.text,
+        range: new vscode.Range(start.line, start.character, end.line, end.character),
+        languageId: block.languageId,
+      };
+    },
+  };
+}
+
+module.exports = {
+  createApi,
+};
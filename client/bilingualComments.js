@@ -0,0 +1,215 @@
+const vscode = require("vscode");
+const { getLanguageExtensions, getSourceGlob, readSourceFile } = require("./commentLanguage");
+
+/**
+ * The options of the server command writing a translation under its comment
+ *
+ * @param {vscode.TextDocument} document
+ * @param {(document: vscode.TextDocument) => number} getWrapWidth
+ */
+function getBilingualOptions(document, getWrapWidth) {
+  return {
+    width: getWrapWidth(document),
+    tabSize: vscode.workspace
+      .getConfiguration("editor", document.uri)
+      .get("tabSize"),
+    bilingual: true,
+  };
+}
+
+/**
+ * Registers the commands writing the translation of a comment under it,
+ * and refreshing the translations whose comment changed since
+ *
+ * @param {vscode.ExtensionContext} context
+ * @param {{getClient: () => any, getWrapWidth: (document: vscode.TextDocument) => number, isExcluded: (uri: vscode.Uri) => boolean}} services
+ */
+function registerBilingualComments(context, services) {
+  // Also run by the code actions of the server, with the position of the comment
+  const translateUnderComment = vscode.commands.registerCommand(
+    "extension.translateUnderComment",
+    async function (uri, position) {
+      if (!services.getClient()) {
+        vscode.window.showWarningMessage(
+          "Writing a translation under its comment requires HoverTranslations to be enabled."
+        );
+        return;
+      }
+      let document;
+      if (uri) {
+        document = vscode.workspace.textDocuments.find(
+          (d) => d.uri.toString() === uri
+        );
+      } else {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+          return;
+        }
+        document = editor.document;
+        position = editor.selection.active;
+      }
+      if (!document) {
+        return;
+      }
+      const line = document.lineAt(position.line);
+      // The server reads the token before the position, so skip the indentation
+      const character = Math.max(
+        position.character,
+        line.firstNonWhitespaceCharacterIndex + 1
+      );
+      await vscode.commands.executeCommand(
+        "vscodeGoogleTranslate.translateBlock",
+        document.uri.toString(),
+        { line: line.lineNumber, character },
+        undefined,
+        undefined,
+        getBilingualOptions(document, services.getWrapWidth)
+      );
+    }
+  );
+  context.subscriptions.push(translateUnderComment);
+
+  const refreshStaleTranslations = vscode.commands.registerCommand(
+    "extension.refreshStaleTranslations",
+    async function () {
+      const client = services.getClient();
+      if (!client) {
+        vscode.window.showWarningMessage(
+          "Refreshing the translations requires HoverTranslations to be enabled."
+        );
+        return;
+      }
+      const extensions = getLanguageExtensions(client.clientOptions.documentSelector);
+      const include = getSourceGlob(extensions);
+      if (!include) {
+        return;
+      }
+      const files = await vscode.workspace.findFiles(include);
+
+      // Only the files to refresh are opened
+      /** @type {Array<vscode.Uri>} */
+      const stale = [];
+      let count = 0;
+      const scanned = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Looking for stale translations",
+          cancellable: true,
+        },
+        async (progress, token) => {
+          for (let i = 0; i < files.length && !token.isCancellationRequested; i++) {
+            progress.report({
+              message: `${i + 1}/${files.length}`,
+              increment: 100 / files.length,
+            });
+            try {
+              if (services.isExcluded(files[i])) {
+                continue;
+              }
+              const file = await readSourceFile(files[i], extensions);
+              if (!file) {
+                continue;
+              }
+              const found = await client.sendRequest("staleTranslations", file);
+              if (found) {
+                stale.push(files[i]);
+                count += found;
+              }
+            } catch (e) {
+              // Binary or unreadable file
+            }
+          }
+          return !token.isCancellationRequested;
+        }
+      );
+      if (!scanned) {
+        return;
+      }
+      if (!count) {
+        vscode.window.showInformationMessage(
+          "Every translation is up to date."
+        );
+        return;
+      }
+      const answer = await vscode.window.showWarningMessage(
+        `Found ${count} stale translations in ${stale.length} files. Translate their comments again?`,
+        { modal: true },
+        "Refresh"
+      );
+      if (answer !== "Refresh") {
+        return;
+      }
+
+      const summary = { files: 0, translations: 0, failed: 0 };
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Refreshing the translations",
+        },
+        async (progress) => {
+          for (let i = 0; i < stale.length; i++) {
+            const document = await vscode.workspace.openTextDocument(stale[i]);
+            progress.report({
+              message: `${i + 1}/${stale.length}`,
+              increment: 100 / stale.length,
+            });
+            const version = document.version;
+            const wasDirty = document.isDirty;
+            // The server answers null until it is initialized
+            const { edits, failed } =
+              (await client.sendRequest("refreshStaleTranslations", {
+                uri: document.uri.toString(),
+                languageId: document.languageId,
+                version,
+                text: document.getText(),
+                options: getBilingualOptions(document, services.getWrapWidth),
+              })) || { edits: [], failed: 0 };
+            summary.failed += failed;
+            // The edits don't apply to a document changed meanwhile
+            if (!edits.length || document.version !== version) {
+              continue;
+            }
+            const workspaceEdit = new vscode.WorkspaceEdit();
+            workspaceEdit.set(
+              document.uri,
+              edits.map(
+                (edit) =>
+                  new vscode.TextEdit(
+                    new vscode.Range(
+                      edit.range.start.line,
+                      edit.range.start.character,
+                      edit.range.end.line,
+                      edit.range.end.character
+                    ),
+                    edit.newText
+                  )
+              )
+            );
+            if (await vscode.workspace.applyEdit(workspaceEdit)) {
+              summary.files++;
+              summary.translations += edits.length;
+              // The files the user wasn't editing aren't left unsaved in the background
+              if (!wasDirty) {
+                await document.save();
+              }
+            }
+          }
+        }
+      );
+
+      const message = `Refreshed ${summary.translations} translations in ${summary.files} files.`;
+      if (summary.failed) {
+        vscode.window.showWarningMessage(
+          `${message} ${summary.failed} translations failed.`
+        );
+      } else {
+        vscode.window.showInformationMessage(message);
+      }
+    }
+  );
+  context.subscriptions.push(refreshStaleTranslations);
+}
+
+module.exports = {
+  registerBilingualComments,
+};
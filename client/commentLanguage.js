@@ -0,0 +1,170 @@
+const vscode = require("vscode");
+const fs = require("fs");
+
+/**
+ * Files larger than this are not checked
+ */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Finds the file extensions of the languages the hover server handles
+ *
+ * @param {Array<string>} languageIds
+ * @returns {Map<string, string>} The language ids by extension, such as `.ts`
+ */
+function getLanguageExtensions(languageIds) {
+  const extensions = new Map();
+  vscode.extensions.all.forEach((extension) => {
+    const contributes = extension.packageJSON.contributes || {};
+    (contributes.languages || [])
+      .filter((language) => languageIds.indexOf(language.id) !== -1)
+      .forEach((language) =>
+        (language.extensions || []).forEach((ext) => {
+          const key = ext.toLowerCase();
+          if (!extensions.has(key)) {
+            extensions.set(key, language.id);
+          }
+        })
+      );
+  });
+  return extensions;
+}
+
+/**
+ * Builds a glob matching the files of the languages the hover server handles
+ *
+ * @param {Map<string, string>} extensions The result of `getLanguageExtensions`
+ * @returns {string|undefined} Nothing when no file extension is known
+ */
+function getSourceGlob(extensions) {
+  if (!extensions.size) {
+    return undefined;
+  }
+  const names = Array.from(extensions.keys()).map((ext) => ext.replace(/^\./, ""));
+  return `**/*.{${names.join(",")}}`;
+}
+
+/**
+ * Reads a file of a workspace scan without opening it, the language server
+ * would keep every opened document. An open document is read as edited.
+ *
+ * @param {vscode.Uri} uri
+ * @param {Map<string, string>} extensions The result of `getLanguageExtensions`
+ * @returns {Promise<{uri: string, languageId: string, version: number, text: string}|null>}
+ * Nothing when the file is too large, binary or of another language
+ */
+async function readSourceFile(uri, extensions) {
+  const open = vscode.workspace.textDocuments.find(
+    (document) => document.uri.toString() === uri.toString()
+  );
+  if (open) {
+    return {
+      uri: open.uri.toString(),
+      languageId: open.languageId,
+      version: open.version,
+      text: open.getText(),
+    };
+  }
+  // The longest extension wins, `.d.ts` before `.ts`
+  const name = uri.path.toLowerCase();
+  const ext = Array.from(extensions.keys())
+    .filter((key) => name.endsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!ext || (await fs.promises.stat(uri.fsPath)).size > MAX_FILE_SIZE) {
+    return null;
+  }
+  const text = await fs.promises.readFile(uri.fsPath, "utf8");
+  if (text.indexOf("\u0000") !== -1) {
+    return null;
+  }
+  return { uri: uri.toString(), languageId: extensions.get(ext), version: 0, text };
+}
+
+/**
+ * Registers the command checking the language of every comment of the workspace
+ *
+ * @param {vscode.ExtensionContext} context
+ * @param {{getClient: () => any, isExcluded: (uri: vscode.Uri) => boolean}} services
+ */
+function registerCommentLanguageScan(context, services) {
+  const checkCommentLanguage = vscode.commands.registerCommand(
+    "extension.checkCommentLanguage",
+    async function () {
+      const client = services.getClient();
+      if (!client) {
+        vscode.window.showWarningMessage(
+          "Checking the language of the comments requires HoverTranslations to be enabled."
+        );
+        return;
+      }
+      const config = vscode.workspace.getConfiguration("vscodeGoogleTranslate");
+      if (!config.get("commentLanguage")) {
+        vscode.window.showWarningMessage(
+          "Set vscodeGoogleTranslate.commentLanguage to the language the comments must be written in."
+        );
+        return;
+      }
+      const extensions = getLanguageExtensions(client.clientOptions.documentSelector);
+      const include = getSourceGlob(extensions);
+      if (!include) {
+        return;
+      }
+      const exclude = config.get("commentLanguageExclude") || [];
+      const files = await vscode.workspace.findFiles(
+        include,
+        exclude.length ? `{${exclude.join(",")}}` : undefined
+      );
+
+      const summary = { files: 0, comments: 0 };
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Checking the language of the comments",
+          cancellable: true,
+        },
+        async (progress, token) => {
+          for (let i = 0; i < files.length && !token.isCancellationRequested; i++) {
+            progress.report({
+              message: `${i + 1}/${files.length}`,
+              increment: 100 / files.length,
+            });
+            try {
+              if (services.isExcluded(files[i])) {
+                continue;
+              }
+              const file = await readSourceFile(files[i], extensions);
+              if (!file) {
+                continue;
+              }
+              const count = await client.sendRequest("checkCommentLanguage", file);
+              if (count) {
+                summary.files++;
+                summary.comments += count;
+              }
+            } catch (e) {
+              // Binary or unreadable file
+            }
+          }
+        }
+      );
+
+      if (summary.comments) {
+        vscode.window.showWarningMessage(
+          `Found ${summary.comments} comments in another language in ${summary.files} files, they are listed in the Problems panel.`
+        );
+      } else {
+        vscode.window.showInformationMessage(
+          "Every comment is written in the project language."
+        );
+      }
+    }
+  );
+  context.subscriptions.push(checkCommentLanguage);
+}
+
+module.exports = {
+  getLanguageExtensions,
+  getSourceGlob,
+  readSourceFile,
+  registerCommentLanguageScan,
+};
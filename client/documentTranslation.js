@@ -0,0 +1,255 @@
+const vscode = require("vscode");
+const { translateAll, Priority } = require("../translation/batch");
+
+const SCHEME = "vscode-google-translate";
+
+/**
+ * @typedef CommentBlock
+ * @property {{start: {line: number, character: number}, end: {line: number, character: number}}} range
+ * @property {string} comment
+ * @property {string} text The comment without its delimiters
+ */
+
+/**
+ * Read-only documents holding the translated copies
+ */
+class TranslatedDocumentProvider {
+  constructor() {
+    /** @type {Map<string, string>} */
+    this._contents = new Map();
+    this._onDidChange = new vscode.EventEmitter();
+    this.onDidChange = this._onDidChange.event;
+  }
+
+  provideTextDocumentContent(uri) {
+    return this._contents.get(uri.toString()) || "";
+  }
+
+  set(uri, content) {
+    this._contents.set(uri.toString(), content);
+    this._onDidChange.fire(uri);
+  }
+
+  delete(uri) {
+    this._contents.delete(uri.toString());
+  }
+}
+
+/**
+ * Fits the translation in as many lines as the original comment,
+ * so both documents stay aligned line by line
+ *
+ * @param {string} translation The translated comment
+ * @param {number} lineCount The number of lines of the original comment
+ * @returns {string}
+ */
+function fitToLines(translation, lineCount) {
+  const lines = translation.split("\n");
+  if (lines.length > lineCount) {
+    lines.splice(lineCount - 1, lines.length, lines.slice(lineCount - 1).join(" "));
+  }
+  while (lines.length < lineCount) {
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Translates the text of the comment blocks, the ones that fail are kept
+ * as they are. The translations have as many lines as the comments.
+ *
+ * @param {Array<CommentBlock>} blocks The comment blocks
+ * @param {import("../translation/providers").TranslateProvider} provider
+ * @param {{from?: string, to: string}} languages
+ * @param {vscode.Progress<{message?: string, increment?: number}>} progress
+ * @returns {Promise<{translations: Array<string>, failed: number}>}
+ */
+async function translateBlocks(blocks, provider, languages, progress) {
+  const results = await translateAll(
+    provider,
+    blocks.map((block) => block.text),
+    { from: languages.from, to: languages.to, priority: Priority.background },
+    (done, total) =>
+      progress.report({
+        message: `${done}/${total} comments`,
+        increment: 100 / total,
+      })
+  );
+  return {
+    translations: results.map((res, i) =>
+      res.error
+        ? blocks[i].text
+        : fitToLines(res.text, blocks[i].text.split("\n").length)
+    ),
+    failed: results.filter((res) => res.error).length,
+  };
+}
+
+/**
+ * Replaces every comment block of the document by its translated comment
+ *
+ * @param {vscode.TextDocument} document The original document
+ * @param {Array<CommentBlock>} blocks The comment blocks
+ * @param {Array<string>} comments The translated comments, delimiters included, in the same order
+ * @returns {string}
+ */
+function buildTranslatedText(document, blocks, comments) {
+  let text = document.getText();
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const { start, end } = blocks[i].range;
+    const startOffset = document.offsetAt(
+      new vscode.Position(start.line, start.character)
+    );
+    const endOffset = document.offsetAt(
+      new vscode.Position(end.line, end.character)
+    );
+    text =
+      text.slice(0, startOffset) + comments[i] + text.slice(endOffset);
+  }
+  return text;
+}
+
+/**
+ * Keeps the top visible line of both editors the same
+ *
+ * @param {Map<string, string>} pairs Both directions of the original/translated uri pairs
+ * @returns {vscode.Disposable}
+ */
+function syncScrolling(pairs) {
+  return vscode.window.onDidChangeTextEditorVisibleRanges((e) => {
+    const counterpartUri = pairs.get(e.textEditor.document.uri.toString());
+    if (!counterpartUri || !e.visibleRanges.length) {
+      return;
+    }
+    const top = e.visibleRanges[0].start.line;
+    vscode.window.visibleTextEditors
+      .filter((editor) => editor.document.uri.toString() === counterpartUri)
+      .forEach((editor) => {
+        if (editor.visibleRanges.length && editor.visibleRanges[0].start.line === top) {
+          return;
+        }
+        editor.revealRange(
+          new vscode.Range(top, 0, top, 0),
+          vscode.TextEditorRevealType.AtTop
+        );
+      });
+  });
+}
+
+/**
+ * Registers the command opening a translated copy of the document comments
+ *
+ * @param {vscode.ExtensionContext} context
+ * @param {{getClient: () => any, getProvider: () => import("../translation/providers").TranslateProvider, getPreferredLocale: () => Promise<string>, getSourceLanguage: () => string|undefined, warnIfExcluded: (uri: vscode.Uri) => boolean}} services
+ */
+function registerDocumentTranslation(context, services) {
+  const contentProvider = new TranslatedDocumentProvider();
+  /** @type {Map<string, string>} */
+  const pairs = new Map();
+
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(SCHEME, contentProvider),
+    syncScrolling(pairs),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      if (document.uri.scheme !== SCHEME) {
+        return;
+      }
+      const uri = document.uri.toString();
+      contentProvider.delete(document.uri);
+      pairs.delete(pairs.get(uri));
+      pairs.delete(uri);
+    })
+  );
+
+  const translateDocumentComments = vscode.commands.registerCommand(
+    "extension.translateDocumentComments",
+    async function () {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || services.warnIfExcluded(editor.document.uri)) {
+        return;
+      }
+      const client = services.getClient();
+      if (!client) {
+        vscode.window.showWarningMessage(
+          "Translating the comments of a document requires HoverTranslations to be enabled."
+        );
+        return;
+      }
+      const locale = await services.getPreferredLocale();
+      if (!locale) {
+        return;
+      }
+      const { document } = editor;
+
+      try {
+        const { text, failed } = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Translating comments",
+          },
+          async (progress) => {
+            /** @type {Array<CommentBlock>} */
+            const blocks =
+              (await client.sendRequest("commentBlocks", {
+                uri: document.uri.toString(),
+              })) || [];
+            const { translations, failed } = await translateBlocks(
+              blocks,
+              services.getProvider(),
+              { from: services.getSourceLanguage(), to: locale },
+              progress
+            );
+            // The server writes the delimiters back around the translations
+            const comments =
+              (await client.sendRequest("writeComments", {
+                uri: document.uri.toString(),
+                blocks,
+                translations,
+              })) || blocks.map((block) => block.comment);
+            return {
+              text: buildTranslatedText(document, blocks, comments),
+              failed,
+            };
+          }
+        );
+
+        const uri = document.uri.with({
+          scheme: SCHEME,
+          path: `${document.uri.path} (${locale})`,
+          query: document.uri.toString(),
+        });
+        contentProvider.set(uri, text);
+        pairs.set(document.uri.toString(), uri.toString());
+        pairs.set(uri.toString(), document.uri.toString());
+
+        let translatedDocument = await vscode.workspace.openTextDocument(uri);
+        translatedDocument = await vscode.languages.setTextDocumentLanguage(
+          translatedDocument,
+          document.languageId
+        );
+        const translatedEditor = await vscode.window.showTextDocument(
+          translatedDocument,
+          { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true, preview: true }
+        );
+        if (editor.visibleRanges.length) {
+          translatedEditor.revealRange(
+            new vscode.Range(editor.visibleRanges[0].start, editor.visibleRanges[0].start),
+            vscode.TextEditorRevealType.AtTop
+          );
+        }
+        if (failed) {
+          vscode.window.showWarningMessage(
+            `${failed} comments could not be translated and were left as they are.`
+          );
+        }
+      } catch (e) {
+        vscode.window.showErrorMessage(e.message);
+      }
+    }
+  );
+  context.subscriptions.push(translateDocumentComments);
+}
+
+module.exports = {
+  registerDocumentTranslation,
+};
@@ -0,0 +1,273 @@
+const vscode = require("vscode");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const { translateAll } = require("../../translation/batch");
+
+const formats = [
+  require("./json"),
+  require("./yaml"),
+  require("./po"),
+  require("./xliff"),
+];
+
+/**
+ * Remembers which source string each translation was made from, so the
+ * translations of changed source strings are known to be stale
+ *
+ * @typedef LocaleState
+ * @property {(id: string, source: string) => boolean} isStale
+ * @property {(id: string, source: string) => void} remember
+ */
+
+/**
+ * @typedef UpdateOptions
+ * @property {string} source The content of the source locale file
+ * @property {string|null} target The content of the target locale file, null when it doesn't exist yet
+ * @property {string} from The source language
+ * @property {string} to The target language
+ * @property {(texts: Array<string>) => Promise<Array<string|undefined>>} translate Resolves undefined for the failed strings
+ * @property {LocaleState} state
+ */
+
+/**
+ * @typedef UpdateResult
+ * @property {string} text The new content of the target file
+ * @property {number} translated How many strings were translated
+ * @property {number} failed How many strings could not be translated
+ */
+
+function getFormat(file) {
+  const extension = path.extname(file).toLowerCase();
+  return formats.find((format) => format.extensions.indexOf(extension) !== -1);
+}
+
+/**
+ * Finds the file of a target locale from the source locale file:
+ * `en.json` → `fr.json`, `messages.en.xlf` → `messages.fr.xlf`,
+ * `locales/en/common.yml` → `locales/fr/common.yml`, `app.pot` → `app.fr.po`
+ *
+ * @param {string} sourcePath The source locale file
+ * @param {string} from The source language
+ * @param {string} to The target language
+ * @returns {string}
+ */
+function getTargetPath(sourcePath, from, to) {
+  const extension = path.extname(sourcePath);
+  const targetExtension = extension.toLowerCase() === ".pot" ? ".po" : extension;
+  const base = path.basename(sourcePath, extension);
+  const dir = path.dirname(sourcePath);
+  const locale = new RegExp(`^${from}([-_][a-z]{2,4})?$`, "i");
+
+  if (locale.test(base)) {
+    return path.join(dir, to + targetExtension);
+  }
+  const parts = base.split(".");
+  if (parts.length > 1 && locale.test(parts[parts.length - 1])) {
+    parts[parts.length - 1] = to;
+    return path.join(dir, parts.join(".") + targetExtension);
+  }
+  const segments = dir.split(path.sep);
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (locale.test(segments[i])) {
+      segments[i] = to;
+      return path.join(segments.join(path.sep), base + targetExtension);
+    }
+  }
+  return path.join(dir, `${base}.${to}${targetExtension}`);
+}
+
+function hash(text) {
+  return crypto.createHash("sha1").update(text).digest("hex").slice(0, 12);
+}
+
+/**
+ * @param {vscode.Memento} memento
+ * @param {string} targetPath
+ * @returns {LocaleState & {save: () => Thenable<void>}}
+ */
+function createState(memento, targetPath) {
+  const all = memento.get("i18nState") || {};
+  const hashes = Object.assign({}, all[targetPath]);
+  return {
+    isStale: (id, source) => !!hashes[id] && hashes[id] !== hash(source),
+    remember: (id, source) => {
+      hashes[id] = hash(source);
+    },
+    save: () => {
+      const next = Object.assign({}, memento.get("i18nState"));
+      next[targetPath] = hashes;
+      return memento.update("i18nState", next);
+    },
+  };
+}
+
+/**
+ * Registers the commands translating locale resource files
+ *
+ * @param {vscode.ExtensionContext} context
+ * @param {{getProvider: () => import("../../translation/providers").TranslateProvider, getLanguages: () => import("../../translation/languages").LanguageRegistry, warnIfExcluded: (uri: vscode.Uri) => boolean}} services
+ */
+function registerLocaleCommands(context, services) {
+  function getSourceLanguage() {
+    return vscode.workspace
+      .getConfiguration("vscodeGoogleTranslate")
+      .get("i18nSourceLanguage");
+  }
+
+  function createTranslate(from, to, progress) {
+    const provider = services.getProvider();
+    return async (texts) => {
+      const results = await translateAll(
+        provider,
+        texts,
+        { from, to },
+        (done, total) => progress.report({ message: `${to}: ${done}/${total}` })
+      );
+      return results.map((res) => (res.error ? undefined : res.text));
+    };
+  }
+
+  /**
+   * @param {string} sourcePath
+   * @param {Array<string>} targets Target language codes
+   */
+  async function translateLocaleFile(sourcePath, targets) {
+    const format = getFormat(sourcePath);
+    const from = getSourceLanguage();
+    const source = fs.readFileSync(sourcePath, "utf8");
+    const summary = { files: 0, translated: 0, failed: 0 };
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Translating ${path.basename(sourcePath)}`,
+      },
+      async (progress) => {
+        for (const to of targets) {
+          const targetPath = getTargetPath(sourcePath, from, to);
+          const target = fs.existsSync(targetPath)
+            ? fs.readFileSync(targetPath, "utf8")
+            : null;
+          const state = createState(context.workspaceState, targetPath);
+          const result = await format.update({
+            source,
+            target,
+            from,
+            to,
+            translate: createTranslate(from, to, progress),
+            state,
+          });
+          if (result.text !== target) {
+            fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+            fs.writeFileSync(targetPath, result.text);
+          }
+          await state.save();
+          summary.files++;
+          summary.translated += result.translated;
+          summary.failed += result.failed;
+        }
+      }
+    );
+
+    const message = `Translated ${summary.translated} strings into ${summary.files} locale files`;
+    if (summary.failed) {
+      vscode.window.showWarningMessage(
+        `${message}, ${summary.failed} strings failed and were left untranslated`
+      );
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+  }
+
+  function getSourcePath(uri) {
+    const file = uri && uri.fsPath
+      ? uri.fsPath
+      : vscode.window.activeTextEditor && vscode.window.activeTextEditor.document.fileName;
+    if (!file || !getFormat(file)) {
+      vscode.window.showWarningMessage(
+        "Open a JSON, YAML, gettext or XLIFF locale file to translate it."
+      );
+      return undefined;
+    }
+    if (services.warnIfExcluded(vscode.Uri.file(file))) {
+      return undefined;
+    }
+    return file;
+  }
+
+  function getExistingTargets(sourcePath) {
+    const from = getSourceLanguage();
+    return services
+      .getLanguages()
+      .getCodes()
+      .filter(
+        (to) =>
+          to !== from && fs.existsSync(getTargetPath(sourcePath, from, to))
+      );
+  }
+
+  const translateLocaleFileCommand = vscode.commands.registerCommand(
+    "extension.translateLocaleFile",
+    async function (uri) {
+      const sourcePath = getSourcePath(uri);
+      if (!sourcePath) {
+        return;
+      }
+      const registry = services.getLanguages();
+      await registry.load(services.getProvider());
+      const existing = getExistingTargets(sourcePath);
+      const selected = await vscode.window.showQuickPick(
+        registry
+          .list()
+          .filter((language) => language.code !== getSourceLanguage())
+          .map((language) => ({
+            label: language.localizedName,
+            description: language.code,
+            picked: existing.indexOf(language.code) !== -1,
+          })),
+        { canPickMany: true, placeHolder: "Target languages", matchOnDescription: true }
+      );
+      if (!selected || !selected.length) {
+        return;
+      }
+      try {
+        await translateLocaleFile(
+          sourcePath,
+          selected.map((item) => item.description)
+        );
+      } catch (e) {
+        vscode.window.showErrorMessage(e.message);
+      }
+    }
+  );
+  context.subscriptions.push(translateLocaleFileCommand);
+
+  const updateLocaleFilesCommand = vscode.commands.registerCommand(
+    "extension.updateLocaleFiles",
+    async function (uri) {
+      const sourcePath = getSourcePath(uri);
+      if (!sourcePath) {
+        return;
+      }
+      const existing = getExistingTargets(sourcePath);
+      if (!existing.length) {
+        vscode.window.showInformationMessage(
+          "No locale file was found next to this one, use 'Translate locale file' to create them."
+        );
+        return;
+      }
+      try {
+        await translateLocaleFile(sourcePath, existing);
+      } catch (e) {
+        vscode.window.showErrorMessage(e.message);
+      }
+    }
+  );
+  context.subscriptions.push(updateLocaleFilesCommand);
+}
+
+module.exports = {
+  getTargetPath,
+  registerLocaleCommands,
+};
@@ -0,0 +1,129 @@
+/**
+ * Nested or flat JSON locale files, such as `{ "home": { "title": "Welcome" } }`
+ */
+
+/**
+ * A string waiting for its translation, the current target value until then
+ */
+class Pending {
+  constructor(value) {
+    this.value = value;
+  }
+}
+
+function detectIndent(text) {
+  const match = /^([ \t]+)\S/m.exec(text);
+  return match ? match[1] : 2;
+}
+
+function isObject(value) {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Mirrors the source structure, keeping the up to date target strings
+ * and the keys only found in the target
+ *
+ * @param {any} source The source node
+ * @param {any} target The target node, if any
+ * @param {Array<string|number>} path The node path
+ * @param {Array<{value: string, pending: Pending, id: string}>} jobs Collects the strings to translate
+ * @param {import("./index").LocaleState} state
+ * @returns {any}
+ */
+function mirror(source, target, path, jobs, state) {
+  if (typeof source === "string") {
+    const id = JSON.stringify(path);
+    const current = typeof target === "string" && target ? target : undefined;
+    if (current !== undefined && !state.isStale(id, source)) {
+      state.remember(id, source);
+      return current;
+    }
+    const pending = new Pending(current);
+    jobs.push({ value: source, pending, id });
+    return pending;
+  }
+  if (Array.isArray(source)) {
+    return source.map((item, i) =>
+      mirror(
+        item,
+        Array.isArray(target) ? target[i] : undefined,
+        path.concat(i),
+        jobs,
+        state
+      )
+    );
+  }
+  if (isObject(source)) {
+    const result = {};
+    Object.keys(source).forEach((key) => {
+      result[key] = mirror(
+        source[key],
+        isObject(target) ? target[key] : undefined,
+        path.concat(key),
+        jobs,
+        state
+      );
+    });
+    if (isObject(target)) {
+      Object.keys(target)
+        .filter((key) => !(key in source))
+        .forEach((key) => (result[key] = target[key]));
+    }
+    return result;
+  }
+  return target !== undefined ? target : source;
+}
+
+function resolve(node) {
+  if (node instanceof Pending) {
+    return node.value;
+  }
+  if (Array.isArray(node)) {
+    return node.map(resolve);
+  }
+  if (isObject(node)) {
+    const result = {};
+    Object.keys(node).forEach((key) => (result[key] = resolve(node[key])));
+    return result;
+  }
+  return node;
+}
+
+/**
+ * Updates the target locale file from the source locale file
+ *
+ * @param {import("./index").UpdateOptions} options
+ * @returns {Promise<import("./index").UpdateResult>}
+ */
+async function update({ source, target, translate, state }) {
+  const jobs = [];
+  const tree = mirror(
+    JSON.parse(source),
+    target ? JSON.parse(target) : undefined,
+    [],
+    jobs,
+    state
+  );
+  const translations = await translate(jobs.map((job) => job.value));
+  jobs.forEach((job, i) => {
+    if (translations[i] !== undefined) {
+      job.pending.value = translations[i];
+      state.remember(job.id, job.value);
+    }
+  });
+  // Strings that failed to translate stay missing, or stale, until the next run
+  const reference = target || source;
+  return {
+    text:
+      JSON.stringify(resolve(tree), null, detectIndent(reference)) +
+      (/\n$/.test(reference) ? "\n" : ""),
+    translated: translations.filter((t) => t !== undefined).length,
+    failed: translations.filter((t) => t === undefined).length,
+  };
+}
+
+module.exports = {
+  extensions: [".json"],
+  update,
+};
@@ -0,0 +1,414 @@
+/**
+ * Gettext catalogs: a `.pot` template or a `.po` file as the source,
+ * `.po` files as targets. Untouched entries are written back verbatim.
+ */
+
+/**
+ * @typedef PoEntry
+ * @property {Array<string>} lines The entry as read, written back when not modified
+ * @property {Array<string>} comments Every comment line, flags included
+ * @property {string} [msgctxt]
+ * @property {string} [msgid]
+ * @property {string} [msgid_plural]
+ * @property {Array<string>} msgstr Translations, one per plural form
+ * @property {boolean} modified
+ */
+
+/**
+ * The Plural-Forms of the languages, from the gettext manual. `one` is the
+ * form of n = 1, -1 when a single form is used for every n.
+ *
+ * @type {Array<{languages: Array<string>, nplurals: number, plural: string, one: number}>}
+ */
+const pluralRules = [
+  {
+    languages: ["ja", "ko", "zh", "vi", "th", "id", "ms", "lo", "km", "my", "jv", "su"],
+    nplurals: 1,
+    plural: "0",
+    one: -1,
+  },
+  {
+    languages: ["fr", "pt-BR", "fil", "tl", "hy", "ln", "mg", "oc", "br"],
+    nplurals: 2,
+    plural: "(n > 1)",
+    one: 0,
+  },
+  {
+    languages: ["ru", "uk", "be", "sr", "hr", "bs"],
+    nplurals: 3,
+    plural:
+      "(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)",
+    one: 0,
+  },
+  {
+    languages: ["pl"],
+    nplurals: 3,
+    plural: "(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)",
+    one: 0,
+  },
+  {
+    languages: ["cs", "sk"],
+    nplurals: 3,
+    plural: "(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2",
+    one: 0,
+  },
+  {
+    languages: ["lt"],
+    nplurals: 3,
+    plural: "(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2)",
+    one: 0,
+  },
+  {
+    languages: ["lv"],
+    nplurals: 3,
+    plural: "(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2)",
+    one: 0,
+  },
+  {
+    languages: ["ro"],
+    nplurals: 3,
+    plural: "(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2)",
+    one: 0,
+  },
+  {
+    languages: ["sl"],
+    nplurals: 4,
+    plural: "(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3)",
+    one: 0,
+  },
+  {
+    languages: ["cy"],
+    nplurals: 4,
+    plural: "(n==1) ? 0 : (n==2) ? 1 : (n != 8 && n != 11) ? 2 : 3",
+    one: 0,
+  },
+  {
+    languages: ["ga"],
+    nplurals: 5,
+    plural: "n==1 ? 0 : n==2 ? 1 : (n>2 && n<7) ? 2 : (n>6 && n<11) ? 3 : 4",
+    one: 0,
+  },
+  {
+    languages: ["ar"],
+    nplurals: 6,
+    plural:
+      "(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5)",
+    one: 1,
+  },
+];
+
+// The languages missing from the rules have a singular for n = 1 only
+const defaultPluralRule = { nplurals: 2, plural: "(n != 1)", one: 0 };
+
+/**
+ * @param {string} language A language code such as `pt-BR`
+ * @returns {{nplurals: number, plural: string, one: number}}
+ */
+function getPluralRule(language) {
+  const base = language.split("-")[0];
+  return (
+    pluralRules.find((rule) => rule.languages.indexOf(language) !== -1) ||
+    pluralRules.find((rule) => rule.languages.indexOf(base) !== -1) ||
+    defaultPluralRule
+  );
+}
+
+/**
+ * Reads the number of plural forms of a catalog header
+ *
+ * @param {string} header The msgstr of the header
+ * @returns {number|undefined} Nothing when it isn't set, or set to the
+ * `nplurals=INTEGER` placeholder of the templates
+ */
+function readPluralCount(header) {
+  const match = /^Plural-Forms:.*\bnplurals\s*=\s*(\d+)/m.exec(header);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Sets a field of a catalog header, adding it when missing
+ *
+ * @param {string} header The msgstr of the header
+ * @param {string} name
+ * @param {string} value
+ * @returns {string}
+ */
+function setHeaderField(header, name, value) {
+  const field = new RegExp(`^${name}:.*$`, "m");
+  return field.test(header)
+    ? header.replace(field, `${name}: ${value}`)
+    : `${header}${header && !header.endsWith("\n") ? "\n" : ""}${name}: ${value}\n`;
+}
+
+function unescapePo(text) {
+  return text.replace(/\\(.)/g, (match, char) => {
+    switch (char) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      default:
+        return char;
+    }
+  });
+}
+
+function escapePo(text) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * @param {string} text
+ * @returns {Array<PoEntry>}
+ */
+function parse(text) {
+  const entries = [];
+  let entry = null;
+  let field = null;
+
+  function flush() {
+    if (entry) {
+      entries.push(entry);
+    }
+    entry = null;
+    field = null;
+  }
+
+  text.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      flush();
+      return;
+    }
+    if (!entry) {
+      entry = { lines: [], comments: [], msgstr: [], modified: false };
+    }
+    entry.lines.push(line);
+    if (trimmed[0] === "#") {
+      entry.comments.push(line);
+      return;
+    }
+    const keyword = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/.exec(
+      trimmed
+    );
+    if (keyword) {
+      const value = unescapePo(keyword[3]);
+      if (keyword[1].indexOf("msgstr") === 0) {
+        const index = keyword[2] ? Number(keyword[2]) : 0;
+        entry.msgstr[index] = value;
+        field = { name: "msgstr", index };
+      } else {
+        entry[keyword[1]] = value;
+        field = { name: keyword[1] };
+      }
+      return;
+    }
+    const continuation = /^"(.*)"$/.exec(trimmed);
+    if (continuation && field) {
+      const value = unescapePo(continuation[1]);
+      if (field.name === "msgstr") {
+        entry.msgstr[field.index] += value;
+      } else {
+        entry[field.name] += value;
+      }
+    }
+  });
+  flush();
+  return entries;
+}
+
+function formatField(name, value) {
+  const parts = value.split(/(?<=\n)(?!$)/);
+  if (parts.length === 1) {
+    return [`${name} "${escapePo(value)}"`];
+  }
+  return [`${name} ""`].concat(parts.map((part) => `"${escapePo(part)}"`));
+}
+
+/**
+ * @param {PoEntry} entry
+ * @returns {Array<string>}
+ */
+function formatEntry(entry) {
+  if (!entry.modified) {
+    return entry.lines;
+  }
+  let lines = entry.comments.slice();
+  if (entry.msgctxt !== undefined) {
+    lines = lines.concat(formatField("msgctxt", entry.msgctxt));
+  }
+  lines = lines.concat(formatField("msgid", entry.msgid));
+  if (entry.msgid_plural !== undefined) {
+    lines = lines.concat(formatField("msgid_plural", entry.msgid_plural));
+    entry.msgstr.forEach((value, i) => {
+      lines = lines.concat(formatField(`msgstr[${i}]`, value || ""));
+    });
+  } else {
+    lines = lines.concat(formatField("msgstr", entry.msgstr[0] || ""));
+  }
+  return lines;
+}
+
+function entryKey(entry) {
+  return `${entry.msgctxt || ""}\u0004${entry.msgid}`;
+}
+
+function isFuzzy(entry) {
+  return entry.comments.some(
+    (comment) => /^#,/.test(comment) && /\bfuzzy\b/.test(comment)
+  );
+}
+
+function removeFuzzy(entry) {
+  entry.comments = entry.comments
+    .map((comment) => {
+      if (!/^#,/.test(comment)) {
+        return comment;
+      }
+      const flags = comment
+        .slice(2)
+        .split(",")
+        .map((flag) => flag.trim())
+        .filter((flag) => flag && flag !== "fuzzy");
+      return flags.length ? `#, ${flags.join(", ")}` : null;
+    })
+    .filter((comment) => comment !== null);
+}
+
+/**
+ * Copies a source entry without its translations
+ *
+ * @param {PoEntry} entry
+ * @param {number} nplurals The number of plural forms of the target language
+ * @returns {PoEntry}
+ */
+function blankCopy(entry, nplurals) {
+  return Object.assign({}, entry, {
+    lines: [],
+    comments: entry.comments.slice(),
+    msgstr: new Array(entry.msgid_plural !== undefined ? nplurals : 1).fill(""),
+    modified: true,
+  });
+}
+
+/**
+ * Updates the target catalog from the source catalog
+ *
+ * @param {import("./index").UpdateOptions} options
+ * @returns {Promise<import("./index").UpdateResult>}
+ */
+async function update({ source, target, to, translate }) {
+  const sourceEntries = parse(source).filter((e) => e.msgid !== undefined);
+  const rule = getPluralRule(to);
+  const targetEntries = target
+    ? parse(target)
+    : sourceEntries.map((entry) =>
+        entry.msgid === ""
+          ? Object.assign(blankCopy(entry, 1), { msgstr: entry.msgstr.slice() })
+          : blankCopy(entry, rule.nplurals)
+      );
+  const byKey = new Map();
+  targetEntries
+    .filter((e) => e.msgid !== undefined)
+    .forEach((entry) => byKey.set(entryKey(entry), entry));
+
+  // The header of a new catalog names its language and its plural forms,
+  // the ones of the template or of the source language don't apply
+  const header = byKey.get(entryKey({ msgid: "" }));
+  let nplurals = header && readPluralCount(header.msgstr[0] || "");
+  if (header && header.msgstr[0] !== undefined && (!target || nplurals === undefined)) {
+    let text = header.msgstr[0];
+    if (!target) {
+      text = setHeaderField(text, "Language", to);
+    }
+    header.msgstr[0] = setHeaderField(
+      text,
+      "Plural-Forms",
+      `nplurals=${rule.nplurals}; plural=${rule.plural};`
+    );
+    header.modified = true;
+    nplurals = rule.nplurals;
+  }
+  if (nplurals === undefined) {
+    nplurals = rule.nplurals;
+  }
+  // The form of n = 1 holds the singular, the other ones the plural. A
+  // single form is used for every n, it holds the plural.
+  let one = nplurals === rule.nplurals ? rule.one : 0;
+  if (nplurals === 1) {
+    one = -1;
+  }
+
+  const jobs = [];
+  sourceEntries
+    .filter((entry) => entry.msgid !== "")
+    .forEach((sourceEntry) => {
+      let entry = byKey.get(entryKey(sourceEntry));
+      if (!entry) {
+        entry = blankCopy(sourceEntry, nplurals);
+        targetEntries.push(entry);
+        byKey.set(entryKey(entry), entry);
+      }
+      let missing = !entry.msgstr.length;
+      // Every plural form must be written, a form left out is a hole
+      const forms = entry.msgid_plural !== undefined ? nplurals : entry.msgstr.length;
+      for (let form = 0; form < forms && !missing; form++) {
+        missing = !entry.msgstr[form];
+      }
+      if (missing || isFuzzy(entry)) {
+        jobs.push(entry);
+      }
+    });
+
+  // The singular and the plural forms are translated separately
+  const texts = [];
+  jobs.forEach((entry) => {
+    texts.push(entry.msgid);
+    if (entry.msgid_plural !== undefined) {
+      texts.push(entry.msgid_plural);
+    }
+  });
+  const translations = await translate(texts);
+
+  let translated = 0;
+  let failed = 0;
+  let i = 0;
+  jobs.forEach((entry) => {
+    const singular = translations[i++];
+    const plural =
+      entry.msgid_plural !== undefined ? translations[i++] : singular;
+    if (singular === undefined || plural === undefined) {
+      failed++;
+      return;
+    }
+    if (entry.msgid_plural !== undefined) {
+      entry.msgstr = [];
+      for (let form = 0; form < nplurals; form++) {
+        entry.msgstr.push(form === one ? singular : plural);
+      }
+    } else {
+      entry.msgstr = [singular];
+    }
+    removeFuzzy(entry);
+    entry.modified = true;
+    translated++;
+  });
+
+  const lines = [];
+  targetEntries.forEach((entry) => {
+    lines.push(...formatEntry(entry), "");
+  });
+  return { text: lines.join("\n"), translated, failed };
+}
+
+module.exports = {
+  extensions: [".po", ".pot"],
+  update,
+};
@@ -0,0 +1,163 @@
+/**
+ * XLIFF 1.2 (`<trans-unit>`) and 2.x (`<unit>`) files. The documents are edited
+ * in place so everything but the touched `<source>`/`<target>` elements is kept.
+ */
+const he = require("he");
+const { mask, unmask } = require("../../translation/mask");
+
+const UNIT = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+const SOURCE = /<source\b[^>]*>([\s\S]*?)<\/source>|<source\b[^>]*\/>/;
+const TARGET = /<target\b([^>]*)>([\s\S]*?)<\/target>|<target\b([^>]*)\/>/;
+const INLINE_TAG = /<[^>]+>/g;
+const STALE_STATES = ["new", "needs-translation", "needs-adaptation", "needs-l10n", "initial"];
+
+function getId(attributes) {
+  const match = /\bid="([^"]*)"/.exec(attributes);
+  return match ? match[1] : undefined;
+}
+
+function getInner(regex, body) {
+  const match = regex.exec(body);
+  return match ? match[1] || "" : undefined;
+}
+
+function escapeXml(text) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Lists the units of a document by id
+ *
+ * @param {string} text
+ * @returns {Map<string, {source: string, raw: string}>}
+ */
+function readUnits(text) {
+  const units = new Map();
+  text.replace(UNIT, (raw, tag, attributes, body) => {
+    const id = getId(attributes);
+    const source = getInner(SOURCE, body);
+    if (id !== undefined && source !== undefined) {
+      units.set(id, { source, raw });
+    }
+    return raw;
+  });
+  return units;
+}
+
+/**
+ * Translates the text content of an element, inline tags such as
+ * `<x id="PH"/>` are protected
+ *
+ * @param {string} inner The inner XML of the element
+ * @returns {{text: string, restore: (translation: string) => string}}
+ */
+function prepare(inner) {
+  const masked = mask(inner, INLINE_TAG);
+  return {
+    text: he.decode(masked.text),
+    restore: (translation) => unmask(escapeXml(translation), masked),
+  };
+}
+
+function setTarget(tag, body, translation) {
+  const target =
+    tag === "trans-unit"
+      ? `<target state="translated">${translation}</target>`
+      : `<target>${translation}</target>`;
+  if (TARGET.test(body)) {
+    return body.replace(TARGET, () => target);
+  }
+  return body.replace(/<\/source>|<source\b[^>]*\/>/, (source) => source + target);
+}
+
+function setLanguage(text, to) {
+  // XLIFF 2 names the target language on the root element, XLIFF 1.2 on each file
+  if (/<xliff\b[^>]*\bversion="2/.test(text)) {
+    return /<xliff\b[^>]*\btrgLang="/.test(text)
+      ? text.replace(/(<xliff\b[^>]*\btrgLang=")[^"]*"/, `$1${to}"`)
+      : text.replace(/<xliff\b/, `<xliff trgLang="${to}"`);
+  }
+  return text.replace(/<file\b[^>]*>/g, (file) =>
+    /\btarget-language="/.test(file)
+      ? file.replace(/\btarget-language="[^"]*"/, `target-language="${to}"`)
+      : file.replace(/<file\b/, `<file target-language="${to}"`)
+  );
+}
+
+/**
+ * Updates the target file from the source file
+ *
+ * @param {import("./index").UpdateOptions} options
+ * @returns {Promise<import("./index").UpdateResult>}
+ */
+async function update({ source, target, to, translate }) {
+  const sourceUnits = readUnits(source);
+  let text = setLanguage(target || source, to);
+
+  // Units added to the source since the target was created
+  const targetIds = new Set(readUnits(text).keys());
+  const added = Array.from(sourceUnits.entries())
+    .filter(([id]) => !targetIds.has(id))
+    .map(([, unit]) => unit.raw);
+  if (added.length) {
+    const close = /<\/body>/.test(text) ? /(\s*)<\/body>/ : /(\s*)<\/file>/;
+    text = text.replace(close, (end, indent) => `${indent}${added.join(indent)}${end}`);
+  }
+
+  const jobs = [];
+  text.replace(UNIT, (raw, tag, attributes, body) => {
+    const id = getId(attributes);
+    const sourceUnit = sourceUnits.get(id);
+    if (!sourceUnit) {
+      return raw;
+    }
+    const targetMatch = TARGET.exec(body);
+    const state = targetMatch && /\bstate="([^"]*)"/.exec(targetMatch[1] || targetMatch[3] || "");
+    const stale =
+      !target ||
+      !targetMatch ||
+      !targetMatch[2] ||
+      getInner(SOURCE, body) !== sourceUnit.source ||
+      (state && STALE_STATES.indexOf(state[1]) !== -1);
+    if (stale) {
+      jobs.push({ id, prepared: prepare(sourceUnit.source), source: sourceUnit.source });
+    }
+    return raw;
+  });
+
+  const translations = await translate(jobs.map((job) => job.prepared.text));
+  const results = new Map();
+  let failed = 0;
+  jobs.forEach((job, i) => {
+    if (translations[i] === undefined) {
+      failed++;
+      return;
+    }
+    try {
+      results.set(job.id, { source: job.source, target: job.prepared.restore(translations[i]) });
+    } catch (e) {
+      failed++;
+    }
+  });
+
+  text = text.replace(UNIT, (raw, tag, attributes, body) => {
+    const result = results.get(getId(attributes));
+    if (!result) {
+      return raw;
+    }
+    const newBody = setTarget(
+      tag,
+      body.replace(SOURCE, (element) =>
+        element.replace(/>[\s\S]*<\/source>$/, () => `>${result.source}</source>`)
+      ),
+      result.target
+    );
+    return `<${tag}${attributes}>${newBody}</${tag}>`;
+  });
+  return { text, translated: results.size, failed };
+}
+
+module.exports = {
+  extensions: [".xlf", ".xliff"],
+  update,
+};
@@ -0,0 +1,106 @@
+/**
+ * YAML locale files, comments and styles are kept as they are
+ */
+const YAML = require("yaml");
+const { Collection, Scalar } = require("yaml/types");
+
+/**
+ * Lists the string leaves of a plain value
+ *
+ * @param {any} node
+ * @param {Array<string|number>} path
+ * @param {Array<{path: Array<string|number>, value: string}>} leaves
+ */
+function collectStrings(node, path, leaves) {
+  if (typeof node === "string") {
+    leaves.push({ path, value: node });
+  } else if (Array.isArray(node)) {
+    node.forEach((item, i) => collectStrings(item, path.concat(i), leaves));
+  } else if (node && typeof node === "object") {
+    Object.keys(node).forEach((key) =>
+      collectStrings(node[key], path.concat(key), leaves)
+    );
+  }
+}
+
+/**
+ * Sets a string in the document, creating the missing collections
+ * and keeping the comments of an existing scalar
+ */
+function setString(doc, path, value) {
+  let node = doc.contents;
+  for (let i = 0; i < path.length - 1; i++) {
+    const next = node.get(path[i], true);
+    if (!(next instanceof Collection)) {
+      const nested = path
+        .slice(i + 1)
+        .reduceRight(
+          (child, key) =>
+            typeof key === "number"
+              ? Object.assign([], { [key]: child })
+              : { [key]: child },
+          value
+        );
+      node.set(path[i], YAML.createNode(nested));
+      return;
+    }
+    node = next;
+  }
+  const key = path[path.length - 1];
+  const existing = node.get(key, true);
+  if (existing instanceof Scalar) {
+    existing.value = value;
+  } else {
+    node.set(key, value);
+  }
+}
+
+/**
+ * Updates the target locale file from the source locale file
+ *
+ * @param {import("./index").UpdateOptions} options
+ * @returns {Promise<import("./index").UpdateResult>}
+ */
+async function update({ source, target, translate, state }) {
+  const sourceDoc = YAML.parseDocument(source);
+  // A new locale starts as a copy of the source, with its comments
+  const targetDoc = YAML.parseDocument(target || source);
+  [sourceDoc, targetDoc].forEach((doc) => {
+    if (doc.errors.length) {
+      throw new Error(doc.errors[0].message);
+    }
+  });
+
+  const leaves = [];
+  collectStrings(sourceDoc.toJSON(), [], leaves);
+  const jobs = leaves.filter(({ path, value }) => {
+    const id = JSON.stringify(path);
+    const current = target ? targetDoc.getIn(path) : undefined;
+    if (typeof current === "string" && current && !state.isStale(id, value)) {
+      state.remember(id, value);
+      return false;
+    }
+    return true;
+  });
+
+  const translations = await translate(jobs.map((job) => job.value));
+  jobs.forEach((job, i) => {
+    if (translations[i] !== undefined) {
+      setString(targetDoc, job.path, translations[i]);
+      state.remember(JSON.stringify(job.path), job.value);
+    } else if (!target) {
+      // Don't leave untranslated source strings in a new locale
+      targetDoc.deleteIn(job.path);
+    }
+  });
+  return {
+    text: String(targetDoc),
+    translated: translations.filter((t) => t !== undefined).length,
+    failed: translations.filter((t) => t === undefined).length,
+  };
+}
+
+module.exports = {
+  extensions: [".yaml", ".yml"],
+  update,
+};
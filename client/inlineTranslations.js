@@ -0,0 +1,210 @@
+const vscode = require("vscode");
+const { Priority } = require("../translation/batch");
+const { isSameLanguage } = require("../translation");
+
+/**
+ * Delay before translating the visible comments after scrolling or typing
+ */
+const DEBOUNCE_DELAY = 400;
+
+const decorationType = vscode.window.createTextEditorDecorationType({
+  after: {
+    margin: "0 0 0 2em",
+    color: new vscode.ThemeColor("editorCodeLens.foreground"),
+    fontStyle: "italic",
+  },
+  rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+});
+
+function getConfig() {
+  return vscode.workspace.getConfiguration("vscodeGoogleTranslate");
+}
+
+/**
+ * Shows the translations of the comments as CodeLenses above them
+ */
+class TranslationCodeLensProvider {
+  constructor() {
+    /** @type {Map<string, Array<vscode.CodeLens>>} */
+    this._lenses = new Map();
+    this._onDidChangeCodeLenses = new vscode.EventEmitter();
+    this.onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+  }
+
+  provideCodeLenses(document) {
+    return this._lenses.get(document.uri.toString()) || [];
+  }
+
+  set(document, lenses) {
+    this._lenses.set(document.uri.toString(), lenses);
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  clear() {
+    this._lenses.clear();
+    this._onDidChangeCodeLenses.fire();
+  }
+}
+
+/**
+ * Renders the translation of each visible comment next to it,
+ * as after-line decorations or CodeLenses depending on the settings
+ *
+ * @param {vscode.ExtensionContext} context
+ * @param {{getClient: () => any, getProvider: () => import("../translation/providers").TranslateProvider, getPreferredLocale: () => Promise<string>, getSourceLanguage: () => string|undefined, isExcluded: (uri: vscode.Uri) => boolean}} services
+ * @returns {{refresh: () => void}} Lets the caller refresh once the server is ready
+ */
+function registerInlineTranslations(context, services) {
+  const codeLensProvider = new TranslationCodeLensProvider();
+  let timer = null;
+  let generation = 0;
+
+  function isEnabled() {
+    return !!getConfig().get("inlineTranslations");
+  }
+
+  function clear() {
+    generation++;
+    vscode.window.visibleTextEditors.forEach((editor) =>
+      editor.setDecorations(decorationType, [])
+    );
+    codeLensProvider.clear();
+  }
+
+  async function update(editor) {
+    const client = services.getClient();
+    const { document } = editor;
+    if (!client || !editor.visibleRanges.length || services.isExcluded(document.uri)) {
+      // Leaves nothing of a file since excluded or hidden
+      generation++;
+      editor.setDecorations(decorationType, []);
+      codeLensProvider.set(document, []);
+      return;
+    }
+    const current = ++generation;
+    const version = document.version;
+    const range = new vscode.Range(
+      editor.visibleRanges[0].start,
+      editor.visibleRanges[editor.visibleRanges.length - 1].end
+    );
+    // Never prompt for the preferred language from a background update
+    if (!getConfig().get("preferredLanguage")) {
+      return;
+    }
+    const locale = await services.getPreferredLocale();
+    if (!locale) {
+      return;
+    }
+
+    const blocks =
+      (await client.sendRequest("commentBlocks", {
+        uri: document.uri.toString(),
+        range,
+      })) || [];
+    const provider = services.getProvider();
+    const from = services.getSourceLanguage();
+    const translations = await Promise.all(
+      blocks.map((block) =>
+        provider
+          .translate(block.text, { from, to: locale, priority: Priority.background })
+          .catch(() => undefined)
+      )
+    );
+    // Scrolled, typed or toggled while translating
+    if (current !== generation || document.version !== version || !isEnabled()) {
+      return;
+    }
+
+    // The comments already in the target language have nothing to show
+    const entries = blocks
+      .map((block, i) => ({ block, res: translations[i] }))
+      .filter(({ block, res }) =>
+        res && !isSameLanguage(res.from, locale) && res.text.trim() !== block.text.trim()
+      )
+      .map(({ block, res }) => ({ block, translation: res.text.replace(/\s*\n\s*/g, " ") }));
+    if (getConfig().get("inlineTranslationStyle") === "codeLens") {
+      editor.setDecorations(decorationType, []);
+      codeLensProvider.set(
+        document,
+        entries.map(({ block, translation }) => {
+          const line = block.range.start.line;
+          return new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+            title: translation,
+            command: "",
+          });
+        })
+      );
+    } else {
+      codeLensProvider.set(document, []);
+      editor.setDecorations(
+        decorationType,
+        entries.map(({ block, translation }) => {
+          const line = block.range.end.line;
+          const end = document.lineAt(line).range.end;
+          return {
+            range: new vscode.Range(end, end),
+            renderOptions: { after: { contentText: translation } },
+          };
+        })
+      );
+    }
+  }
+
+  function scheduleUpdate() {
+    clearTimeout(timer);
+    if (!isEnabled()) {
+      return;
+    }
+    timer = setTimeout(() => {
+      const editor = vscode.window.activeTextEditor;
+      editor && update(editor).catch((e) => console.error(e));
+    }, DEBOUNCE_DELAY);
+  }
+
+  function onDidChangeTextDocument(e) {
+    // The output channels change too, the sent text log among them
+    const editor = vscode.window.activeTextEditor;
+    if (
+      editor &&
+      e.document === editor.document &&
+      (e.document.uri.scheme === "file" || e.document.uri.scheme === "untitled")
+    ) {
+      scheduleUpdate();
+    }
+  }
+
+  const toggleInlineTranslations = vscode.commands.registerCommand(
+    "extension.toggleInlineTranslations",
+    function () {
+      return vscode.workspace
+        .getConfiguration()
+        .update(
+          "vscodeGoogleTranslate.inlineTranslations",
+          !isEnabled(),
+          vscode.ConfigurationTarget.Global
+        );
+    }
+  );
+
+  context.subscriptions.push(
+    toggleInlineTranslations,
+    decorationType,
+    vscode.languages.registerCodeLensProvider({ scheme: "file" }, codeLensProvider),
+    vscode.window.onDidChangeActiveTextEditor(scheduleUpdate),
+    vscode.window.onDidChangeTextEditorVisibleRanges(scheduleUpdate),
+    vscode.workspace.onDidChangeTextDocument(onDidChangeTextDocument),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (!e.affectsConfiguration("vscodeGoogleTranslate")) {
+        return;
+      }
+      clear();
+      scheduleUpdate();
+    }),
+    { dispose: () => clearTimeout(timer) }
+  );
+  return { refresh: scheduleUpdate };
+}
+
+module.exports = {
+  registerInlineTranslations,
+};
@@ -0,0 +1,141 @@
+const vscode = require("vscode");
+const { matchesGlobs } = require("../translation/glob");
+
+// The answer of the user, kept by workspace
+const ALLOWED_KEY = "translationsAllowed";
+
+const ALLOW = "Allow";
+const DENY = "Deny";
+const ASK_AGAIN = "Ask again";
+
+const EXCLUDED_MESSAGE =
+  "The text of this file is never sent, it matches vscodeGoogleTranslate.translationExclude.";
+
+/**
+ * @typedef Privacy
+ * @property {(provider: string) => Promise<boolean>} confirm Tells whether the text of the workspace may be sent to a provider, asking the user the first time
+ * @property {(entry: import("../translation/privacy").SentEntry, origin: string) => void} log Writes what was sent in the output channel
+ * @property {(uri: vscode.Uri) => boolean} isExcluded Tells whether the text of a file is never sent
+ * @property {(uri: vscode.Uri) => boolean} warnIfExcluded `isExcluded`, telling the user why nothing happens
+ */
+
+/**
+ * Registers the trust prompt of the workspace, the log of the sent texts
+ * and their commands
+ *
+ * @param {vscode.ExtensionContext} context
+ * @returns {Privacy}
+ */
+function registerPrivacy(context) {
+  const channel = vscode.window.createOutputChannel("Translate: Sent Text");
+  context.subscriptions.push(channel);
+
+  // A dismissed prompt denies the translations until the window is reloaded
+  let dismissed = false;
+  // The prompt being shown, the requests sent meanwhile wait for its answer
+  /** @type {Thenable<boolean>|null} */
+  let prompt = null;
+
+  function getConfig() {
+    return vscode.workspace.getConfiguration("vscodeGoogleTranslate");
+  }
+
+  function confirm(provider) {
+    if (!getConfig().get("confirmWorkspaceTranslations")) {
+      return Promise.resolve(true);
+    }
+    const allowed = context.workspaceState.get(ALLOWED_KEY);
+    if (typeof allowed === "boolean") {
+      return Promise.resolve(allowed);
+    }
+    if (dismissed) {
+      return Promise.resolve(false);
+    }
+    if (!prompt) {
+      const workspace = vscode.workspace.name ? `"${vscode.workspace.name}"` : "this window";
+      prompt = vscode.window
+        .showWarningMessage(
+          `Allow the translations to send the text of ${workspace} to ${provider}?`,
+          ALLOW,
+          DENY
+        )
+        .then(async (answer) => {
+          prompt = null;
+          if (!answer) {
+            dismissed = true;
+            return false;
+          }
+          await context.workspaceState.update(ALLOWED_KEY, answer === ALLOW);
+          return answer === ALLOW;
+        });
+    }
+    return Promise.resolve(prompt);
+  }
+
+  function log(entry, origin) {
+    const languages =
+      entry.kind === "detect" ? "language detection" : `${entry.from || "auto"} → ${entry.to}`;
+    const redacted = entry.redacted ? ` · ${entry.redacted} redacted` : "";
+    channel.appendLine(
+      `[${new Date().toISOString()}] ${entry.provider} · ${languages} · ${origin}${redacted}`
+    );
+    entry.texts.forEach((text) => channel.appendLine(text.replace(/^/gm, "    ")));
+  }
+
+  function isExcluded(uri) {
+    return matchesGlobs(uri.path, getConfig().get("translationExclude") || []);
+  }
+
+  function warnIfExcluded(uri) {
+    if (!isExcluded(uri)) {
+      return false;
+    }
+    vscode.window.showWarningMessage(EXCLUDED_MESSAGE);
+    return true;
+  }
+
+  const setWorkspaceTranslations = vscode.commands.registerCommand(
+    "extension.setWorkspaceTranslations",
+    async function () {
+      const allowed = context.workspaceState.get(ALLOWED_KEY);
+      const current =
+        typeof allowed === "boolean" ? (allowed ? ALLOW : DENY) : dismissed ? DENY : ASK_AGAIN;
+      const answer = await vscode.window.showQuickPick(
+        [
+          { label: ALLOW, description: "Send the text of this workspace to the translation provider" },
+          { label: DENY, description: "Never send the text of this workspace" },
+          { label: ASK_AGAIN, description: "Ask before the next translation" },
+        ],
+        { placeHolder: `Translations in this workspace: ${current}` }
+      );
+      if (!answer) {
+        return;
+      }
+      dismissed = false;
+      await context.workspaceState.update(
+        ALLOWED_KEY,
+        answer.label === ASK_AGAIN ? undefined : answer.label === ALLOW
+      );
+    }
+  );
+  context.subscriptions.push(setWorkspaceTranslations);
+
+  const showSentText = vscode.commands.registerCommand(
+    "extension.showSentText",
+    function () {
+      channel.show(true);
+    }
+  );
+  context.subscriptions.push(showSentText);
+
+  return {
+    confirm,
+    log,
+    isExcluded,
+    warnIfExcluded,
+  };
+}
+
+module.exports = {
+  registerPrivacy,
+};
@@ -0,0 +1,126 @@
+const vscode = require("vscode");
+const fs = require("fs");
+
+const TMX_FILTERS = { "Translation memory": ["tmx"] };
+
+/**
+ * Registers the commands importing, exporting and editing the translation memory
+ *
+ * @param {vscode.ExtensionContext} context
+ * @param {{getMemory: () => import("../translation/memory").TranslationMemory}} services
+ */
+function registerTranslationMemory(context, services) {
+  const importMemory = vscode.commands.registerCommand(
+    "extension.importTranslationMemory",
+    async function () {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: true,
+        filters: TMX_FILTERS,
+        openLabel: "Import",
+      });
+      if (!uris) {
+        return;
+      }
+      let count = 0;
+      try {
+        uris.forEach((uri) => {
+          count += services.getMemory().importTmx(fs.readFileSync(uri.fsPath, "utf8"));
+        });
+      } catch (e) {
+        vscode.window.showErrorMessage(`Unable to import the translation memory: ${e.message}`);
+        return;
+      }
+      vscode.window.showInformationMessage(
+        `Imported ${count} translations into the translation memory.`
+      );
+    }
+  );
+  context.subscriptions.push(importMemory);
+
+  const exportMemory = vscode.commands.registerCommand(
+    "extension.exportTranslationMemory",
+    async function () {
+      const memory = services.getMemory();
+      const count = memory.entries().filter((entry) => entry.approved).length;
+      if (!count) {
+        vscode.window.showInformationMessage("The translation memory has no approved translation.");
+        return;
+      }
+      const uri = await vscode.window.showSaveDialog({
+        filters: TMX_FILTERS,
+        saveLabel: "Export",
+      });
+      if (!uri) {
+        return;
+      }
+      try {
+        fs.writeFileSync(uri.fsPath, memory.exportTmx());
+      } catch (e) {
+        vscode.window.showErrorMessage(`Unable to export the translation memory: ${e.message}`);
+        return;
+      }
+      vscode.window.showInformationMessage(
+        `Exported ${count} translations to ${uri.fsPath}.`
+      );
+    }
+  );
+  context.subscriptions.push(exportMemory);
+
+  const editMemory = vscode.commands.registerCommand(
+    "extension.editTranslationMemory",
+    async function () {
+      const memory = services.getMemory();
+      const entries = memory.entries();
+      if (!entries.length) {
+        vscode.window.showInformationMessage("The translation memory is empty.");
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        entries.map((entry) => ({
+          label: entry.source,
+          description: `${entry.from} → ${entry.to} · ${entry.provider}${entry.approved ? "" : " · not approved"}`,
+          detail: entry.target,
+          entry,
+        })),
+        { placeHolder: "Pick the translation to edit", matchOnDetail: true }
+      );
+      if (!picked) {
+        return;
+      }
+      const { entry } = picked;
+      const action = await vscode.window.showQuickPick(
+        (entry.approved ? [] : ["Approve the translation"]).concat([
+          "Edit the translation",
+          "Edit the source text",
+          "Delete the entry",
+        ]),
+        { placeHolder: entry.source }
+      );
+      if (!action) {
+        return;
+      }
+      if (action === "Approve the translation") {
+        memory.update(entry.id);
+        return;
+      }
+      if (action === "Delete the entry") {
+        memory.remove(entry.id);
+        return;
+      }
+      const field = action === "Edit the translation" ? "target" : "source";
+      const value = await vscode.window.showInputBox({
+        value: entry[field],
+        prompt: field === "target" ? entry.source : `Translated as: ${entry.target}`,
+        validateInput: (text) => (text.trim() ? null : "The text can't be empty"),
+      });
+      if (value !== undefined && value !== entry[field]) {
+        memory.update(entry.id, { [field]: value });
+      }
+    }
+  );
+  context.subscriptions.push(editMemory);
+}
+
+module.exports = {
+  registerTranslationMemory,
+};
@@ -1,51 +1,259 @@
 const vscode = require("vscode");
-const languages = require("./languages.js");
-const gti = require("@vitalets/google-translate-api");
-const tunnel = require('tunnel');
+const { createTranslator } = require("./translation");
+const { BatchScheduler } = require("./translation/batch");
+const { parseIdentifier, toIdentifier } = require("./translation/identifier");
+const { TranslationCache } = require("./translation/cache");
+const { emptyGlossary, loadGlossary } = require("./translation/glossary");
+const { TranslationMemory } = require("./translation/memory");
+const { LanguageRegistry } = require("./translation/languages");
+const {
+  decodeStringLiteral,
+  encodeStringLiteral,
+} = require("./translation/stringLiteral");
+const { registerDocumentTranslation } = require("./client/documentTranslation");
+const { registerInlineTranslations } = require("./client/inlineTranslations");
+const { registerLocaleCommands } = require("./client/i18n");
+const { registerCommentLanguageScan } = require("./client/commentLanguage");
+const { registerBilingualComments } = require("./client/bilingualComments");
+const { registerTranslationMemory } = require("./client/translationMemory");
+const { createApi } = require("./client/api");
+const { registerPrivacy } = require("./client/privacy");
 const he = require("he");
 const path = require("path");
 const vscodeLanguageClient = require("vscode-languageclient");
-const humanizeString = require("humanize-string");
-const camelcase = require("camelcase");
-
-function translate(text, options) {
-  const gotopts = {};
-  if (options && options.proxy) {
-    const proxy = {
-      host: options.proxy.host,
-      port: options.proxy.port,
-      headers: {
-        "User-Agent": "Node",
-      },
-    };
-    if (options.proxy.auth) {
-      proxy.proxyAuth = `${options.proxy.auth.username}:${options.proxy.auth.password}`;
-    }
 
-    gotopts.agent = tunnel.httpsOverHttp({
-      proxy: proxy,
-    });
+/**
+ * The column translated comments are wrapped at: the configured width,
+ * else the first ruler of the editor, else 80
+ *
+ * @param {vscode.TextDocument} document
+ * @returns {number}
+ */
+function getWrapWidth(document) {
+  const width = vscode.workspace
+    .getConfiguration("vscodeGoogleTranslate")
+    .get("commentWrapWidth");
+  if (width > 0) {
+    return width;
   }
-  return gti(text, options, gotopts).then((res) => {
-    res.data = [res.text];
-    return res;
-  });
+  const rulers = vscode.workspace
+    .getConfiguration("editor", document.uri)
+    .get("rulers");
+  const ruler = (rulers || [])
+    .map((r) => (typeof r === "number" ? r : r.column))
+    .filter((column) => column > 0)[0];
+  return ruler || 80;
+}
+
+/**
+ * Returns the translation provider selected in the user settings, built
+ * once and again after the settings change
+ *
+ * @returns {import("./translation/providers").TranslateProvider}
+ */
+function getProvider() {
+  if (translator) {
+    return translator;
+  }
+  translator = createTranslator(
+    vscode.workspace.getConfiguration("vscodeGoogleTranslate"),
+    {
+      scheduler,
+      cache,
+      glossary,
+      memory,
+      languages: registry,
+      privacy: {
+        confirm: privacy.confirm,
+        onSend: (entry) => privacy.log(entry, "commands"),
+      },
+    }
+  );
+  return translator;
 }
 
 /**
  * @typedef TranslateRes
  * @property {vscode.Selection} selection Selection
  * @property {string} translation Result
+ * @property {boolean} [escaped] The translation is escaped for the string literal holding it
  */
 
 /**
- * The list of recently used languages
+ * The codes of the recently used languages
  *
  * @type {Array.<string>}
  */
 const recentlyUsed = [];
 
+/**
+ * The languages of the provider, named in the language of VS Code
+ *
+ * @type {LanguageRegistry}
+ */
+const registry = new LanguageRegistry({ displayLocale: vscode.env.language });
+
+// The settings holding a language, names before the codes were used
+const LANGUAGE_SETTINGS = ["preferredLanguage", "sourceLanguage", "commentLanguage"];
+
+// The settings naming the languages the provider knows
+const PROVIDER_SETTINGS = ["provider", "deeplApiKey", "libreTranslateUrl", "customEndpointUrl"];
+
+/**
+ * The unknown languages of the settings already reported
+ *
+ * @type {Set<string>}
+ */
+const reportedLanguages = new Set();
+
 let client = null;
+/** @type {Promise<void>} Settles once the language server has started */
+let clientReady = null;
+
+/**
+ * Sends the translation requests of the commands
+ *
+ * @type {BatchScheduler}
+ */
+let scheduler = null;
+
+/**
+ * The translation cache, shared with the hover server through its file
+ *
+ * @type {TranslationCache}
+ */
+let cache = null;
+
+/**
+ * The glossaries of the workspace folders, merged
+ *
+ * @type {import("./translation/glossary").Glossary}
+ */
+let glossary = emptyGlossary();
+
+/**
+ * The approved translations, shared with the hover server through its file
+ *
+ * @type {TranslationMemory}
+ */
+let memory = null;
+
+/**
+ * The trust of the workspace, the excluded files and the log of the sent texts
+ *
+ * @type {import("./client/privacy").Privacy}
+ */
+let privacy = null;
+
+/**
+ * The translator of the commands, its network transport keeps its connections
+ *
+ * @type {import("./translation/providers").TranslateProvider}
+ */
+let translator = null;
+
+/**
+ * Shows the similar translations one selection at a time
+ *
+ * @type {Promise<any>}
+ */
+let suggestionQueue = Promise.resolve();
+
+/**
+ * The path of the translation memory file: the setting, relative to the
+ * first workspace folder, else a file of the extension storage
+ *
+ * @param {vscode.ExtensionContext} context
+ * @returns {string}
+ */
+function getMemoryFile(context) {
+  const file = vscode.workspace
+    .getConfiguration("vscodeGoogleTranslate")
+    .get("translationMemoryFile");
+  if (!file) {
+    return path.join(context.globalStoragePath, "translation-memory.json");
+  }
+  const folders = vscode.workspace.workspaceFolders;
+  return path.isAbsolute(file) || !folders
+    ? file
+    : path.join(folders[0].uri.fsPath, file);
+}
+
+/**
+ * Offers the similar translations of the translation memory before calling
+ * the provider
+ *
+ * @param {import("./translation/providers").TranslateProvider} provider
+ * @param {string} text
+ * @param {{from?: string, to: string}} options
+ * @returns {Promise<import("./translation/providers").TranslateResult|undefined>} Nothing to call the provider
+ */
+function pickSuggestion(provider, text, options) {
+  const suggestions = provider.suggest(text, options);
+  // The translation of the same text is used without asking
+  if (!suggestions.length || suggestions[0].score === 1) {
+    return Promise.resolve(undefined);
+  }
+  const offline = vscode.workspace
+    .getConfiguration("vscodeGoogleTranslate")
+    .get("offlineMode");
+  const pick = () =>
+    vscode.window
+      .showQuickPick(
+        suggestions
+          .map((match) => ({
+            label: match.entry.target,
+            description: `${Math.round(match.score * 100)}%`,
+            detail: match.entry.source,
+            match,
+          }))
+          .concat(
+            offline
+              ? []
+              : [{ label: `$(globe) Translate with ${provider.name}`, description: "" }]
+          ),
+        { placeHolder: `Similar translations of "${text.slice(0, 60)}"` }
+      )
+      .then((item) => {
+        if (!item) {
+          throw new Error("The translation was cancelled");
+        }
+        return item.match
+          ? {
+              text: item.match.entry.target,
+              from: item.match.entry.from,
+              memory: { score: item.match.score, source: item.match.entry.source },
+            }
+          : undefined;
+      });
+  const result = suggestionQueue.then(pick);
+  suggestionQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Reads the glossary files again and sends them to the hover server
+ *
+ * @returns {undefined}
+ */
+function reloadGlossary() {
+  const file = vscode.workspace
+    .getConfiguration("vscodeGoogleTranslate")
+    .get("glossaryFile");
+  const files = (vscode.workspace.workspaceFolders || []).map((folder) =>
+    path.join(folder.uri.fsPath, file)
+  );
+  try {
+    glossary = loadGlossary(files);
+  } catch (e) {
+    glossary = emptyGlossary();
+    vscode.window.showErrorMessage(e.message);
+  }
+  translator = null;
+  if (client) {
+    client.sendNotification("glossary", glossary);
+  }
+}
 
 /**
  * Updates languages lists for the convenience of users
@@ -99,78 +307,161 @@ function getSelectedLineText(document, selection) {
  * @param {string} selectedText Text
  * @param {string} selectedLanguage Language
  * @param {vscode.Selection} selection Selection
+ * @param {string} [sourceLanguage] Source language, the setting when omitted
+ * @param {string} [languageId] The language of the document, for the identifiers
  * @returns {Promise.<TranslateRes>}
  */
-function getTranslationPromise(selectedText, selectedLanguage, selection) {
-  return new Promise((resolve, reject) => {
-    const { host, port, username, password } = getProxyConfig();
-    const translationConfiguration = {
-      to: selectedLanguage,
-    };
-    if (!!host) {
-      translationConfiguration.proxy = {
-        host,
-        port: Number(port),
-      };
-      if (!!username) {
-        translationConfiguration.proxy.auth = {
-          username,
-          password,
-        };
+function getTranslationPromise(
+  selectedText,
+  selectedLanguage,
+  selection,
+  sourceLanguage = getSourceLanguage(),
+  languageId
+) {
+  const provider = getProvider();
+  const translationConfiguration = {
+    from: sourceLanguage,
+    to: selectedLanguage,
+  };
+  // Identifiers are translated word by word, then written back
+  // with the same naming convention: user_name → nom_utilisateur
+  const identifier = parseIdentifier(selectedText);
+  const isIdentifier = !!identifier && identifier.words.length > 1;
+  const text = isIdentifier ? identifier.words.join(" ") : selectedText;
+  return pickSuggestion(provider, text, translationConfiguration)
+    .then(
+      (suggestion) =>
+        suggestion ||
+        provider.translate(text, translationConfiguration).catch((e) => {
+          // The network errors already tell what to check
+          throw e.network ? e : new Error(`${provider.name} API issue: ${e.message}`);
+        })
+    )
+    .then((res) => {
+      if (!res || !res.text) {
+        throw new Error(`${provider.name} returned no translation`);
       }
-    }
-    translate(selectedText, translationConfiguration)
-      .then((res) => {
-        if (!!res && !!res.data) {
-          // If google rejects the string it will return the same string as input
-          // We can try to split the string into parts, then translate again. Then return it to a
-          // camel style casing
-          if (res.data[0] === selectedText) {
-            translate(
-              humanizeString(selectedText),
-              translationConfiguration
-            ).then((res) => {
-              if (!!res && !!res.data) {
-                resolve(
-                  /** @type {TranslateRes} */ {
-                    selection,
-                    translation: camelcase(res.data[0]),
-                  }
-                );
-              } else {
-                reject(new Error("Google Translation API issue"));
-              }
-            });
-          } else {
-            resolve(
-              /** @type {TranslateRes} */ {
-                selection,
-                translation: res.data[0],
-              }
-            );
-          }
-        } else {
-          reject(new Error("Google Translation API issue"));
-        }
-      })
-      .catch((e) =>
-        reject(new Error("Google Translation API issue: " + e.message))
+      if (!res.memory) {
+        // The machine translations wait for a user to approve them in the memory
+        memory.add({
+          source: text,
+          target: res.text,
+          from: res.from || sourceLanguage,
+          to: selectedLanguage,
+          provider: provider.id,
+          approved: false,
+        });
+      }
+      const translation = isIdentifier
+        ? toIdentifier(res.text, identifier, languageId)
+        : res.text;
+      if (!translation) {
+        throw new Error(`"${res.text}" has no character valid in an identifier`);
+      }
+      return /** @type {TranslateRes} */ ({
+        selection,
+        translation,
+      });
+    });
+}
+
+/**
+ * Waits for every translation. The failed ones are left out and
+ * reported, so their selections are left untouched.
+ *
+ * @param {Array.<Promise<TranslateRes>>} translationsPromiseArray
+ * @returns {Promise.<Array<TranslateRes>>} The successful translations
+ */
+function settleTranslations(translationsPromiseArray) {
+  return Promise.all(
+    translationsPromiseArray.map((promise) =>
+      promise.catch((error) => ({ error }))
+    )
+  ).then((results) => {
+    const failed = results.filter((r) => r.error);
+    if (failed.length) {
+      vscode.window.showWarningMessage(
+        `Translated ${results.length - failed.length} of ${
+          results.length
+        } selections, the others were left untouched. ${failed[0].error.message}`
       );
+    }
+    return results.filter((r) => !r.error);
   });
 }
 
+/**
+ * Tells how the string literal holding a selection is written, the hover
+ * server knows where the literals are
+ *
+ * @param {vscode.TextDocument} document The current document
+ * @param {vscode.Selection} selection The current selection
+ * @returns {Promise<import("./translation/stringLiteral").StringSyntax|null>} Nothing outside a literal
+ */
+function getStringSyntax(document, selection) {
+  if (!client || selection.isEmpty) {
+    return Promise.resolve(null);
+  }
+  return client
+    .sendRequest("stringLiteral", {
+      uri: document.uri.toString(),
+      range: {
+        start: { line: selection.start.line, character: selection.start.character },
+        end: { line: selection.end.line, character: selection.end.character },
+      },
+    })
+    .then((literal) => (literal ? literal.syntax : null), () => null);
+}
+
+/**
+ * Returns the text to write in place of a selection
+ *
+ * @param {TranslateRes} res
+ * @returns {string}
+ */
+function getReplacement(res) {
+  return res.escaped ? res.translation : he.decode(res.translation);
+}
+
 /**
  * Generates the array of promises based on selections
  *
  * @param {Array.<vscode.Selection>} selections Array of selections
  * @param {vscode.TextDocument} document The current document
  * @param {string} selectedLanguage The current language
+ * @param {string} [sourceLanguage] The source language
  * @returns {Array.<Promise<TranslateRes>>}
  */
-function getTranslationsPromiseArray(selections, document, selectedLanguage) {
-  return selections.map((selection) => {
+function getTranslationsPromiseArray(
+  selections,
+  document,
+  selectedLanguage,
+  sourceLanguage
+) {
+  return selections.map(async (selection) => {
     const selectedText = getSelectedText(document, selection);
-    return getTranslationPromise(selectedText, selectedLanguage, selection);
+    // The text of a string literal is translated without its escapes,
+    // and its translation is escaped again for the same quotes
+    const syntax = await getStringSyntax(document, selection);
+    const res = await getTranslationPromise(
+      syntax ? decodeStringLiteral(selectedText, syntax) : selectedText,
+      selectedLanguage,
+      selection,
+      sourceLanguage,
+      document.languageId
+    );
+    if (!syntax) {
+      return res;
+    }
+    return {
+      selection,
+      translation: encodeStringLiteral(
+        he.decode(res.translation),
+        syntax,
+        selectedText
+      ),
+      escaped: true,
+    };
   });
 }
 
@@ -180,40 +471,143 @@ function getTranslationsPromiseArray(selections, document, selectedLanguage) {
  * @param {vscode.Selection} selections The current selection
  * @param {vscode.TextDocument} document The current document
  * @param {string} selectedLanguage
+ * @param {string} [sourceLanguage]
  * @returns {Array.<Promise<TranslateRes>>}
  */
 function getTranslationsPromiseArrayLine(
   selections,
   document,
-  selectedLanguage
+  selectedLanguage,
+  sourceLanguage
 ) {
   return selections.map((selection) => {
     const selectedLineText = getSelectedLineText(document, selection);
-    return getTranslationPromise(selectedLineText, selectedLanguage, selection);
+    return getTranslationPromise(
+      selectedLineText,
+      selectedLanguage,
+      selection,
+      sourceLanguage,
+      document.languageId
+    );
   });
 }
 
 /**
- * Returns user settings Preferred language.
- * If user hasn't set preferred lang. Prompt to set.
+ * Returns the language code of the preferred language,
+ * prompting the user to set it if needed
+ *
+ * @returns {Promise.<string|undefined>}
+ */
+async function getPreferredLocale() {
+  const value = vscode.workspace
+    .getConfiguration("vscodeGoogleTranslate")
+    .get("preferredLanguage");
+  const code = registry.resolve(value);
+  if (code) {
+    return code;
+  }
+  if (value) {
+    vscode.window.showWarningMessage(
+      `The preferred language "${value}" is unknown, pick another one.`
+    );
+  }
+  return setPreferredLanguage();
+}
+
+/**
+ * Returns the code of the source language setting
+ *
+ * @returns {string|undefined} Nothing when the source language is detected
  */
-function getPreferredLanguage() {
-  return (
+function getSourceLanguage() {
+  return registry.resolve(
     vscode.workspace
       .getConfiguration("vscodeGoogleTranslate")
-      .get("preferredLanguage") || setPreferredLanguage()
+      .get("sourceLanguage")
   );
 }
 
-async function setPreferredLanguage() {
-  const quickPickData = recentlyUsed
-    .map((r) => ({
-      label: r,
-      description: "(recently used)",
+/**
+ * The items of a language list: the recently used languages, then the
+ * languages of the provider, named in the language of VS Code
+ *
+ * @returns {Promise<Array<vscode.QuickPickItem & {code: string}>>}
+ */
+async function getLanguageItems() {
+  await registry.load(getProvider());
+  return recentlyUsed
+    .map((code) => ({
+      label: registry.getLocalizedName(code),
+      description: `${code} (recently used)`,
+      code,
     }))
-    .concat(languages.map((r) => ({ label: r.name })));
+    .concat(
+      registry.list().map((language) => ({
+        label: language.localizedName,
+        description:
+          language.localizedName === language.name
+            ? language.code
+            : `${language.name} · ${language.code}`,
+        code: language.code,
+      }))
+    );
+}
 
-  const selectedLanguage = await vscode.window.showQuickPick(quickPickData);
+/**
+ * Asks for the target language. The first item changes the source
+ * language for this translation only.
+ *
+ * @returns {Promise.<{from: string|undefined, to: string}|undefined>}
+ */
+async function pickLanguages() {
+  let from = getSourceLanguage();
+  for (;;) {
+    const selectedLanguage = await vscode.window.showQuickPick(
+      [
+        {
+          label: `$(globe) From: ${from ? registry.getLocalizedName(from) : "Auto-detect"}`,
+          description: "Change the source language of this translation",
+          changeSource: true,
+        },
+      ].concat(await getLanguageItems()),
+      { placeHolder: "Translate to", matchOnDescription: true }
+    );
+    if (!selectedLanguage) {
+      return undefined;
+    }
+    if (!selectedLanguage.changeSource) {
+      updateLanguageList(selectedLanguage.code);
+      return {
+        from,
+        to: selectedLanguage.code,
+      };
+    }
+    const selectedSource = await vscode.window.showQuickPick(
+      [{ label: "Auto-detect", code: undefined }].concat(
+        registry.list().map((language) => ({
+          label: language.localizedName,
+          description: language.code,
+          code: language.code,
+        }))
+      ),
+      { placeHolder: "Translate from", matchOnDescription: true }
+    );
+    if (selectedSource) {
+      from = selectedSource.code;
+    }
+  }
+}
+
+/**
+ * Asks for the preferred language and saves its code in the user settings
+ *
+ * @returns {Promise.<string|undefined>} The code of the language
+ */
+async function setPreferredLanguage() {
+  const selectedLanguage = await vscode.window.showQuickPick(
+    await getLanguageItems(),
+    { placeHolder: "Preferred target language", matchOnDescription: true }
+  );
   if (!selectedLanguage) {
     return;
   }
@@ -221,63 +615,168 @@ async function setPreferredLanguage() {
     .getConfiguration()
     .update(
       "vscodeGoogleTranslate.preferredLanguage",
-      selectedLanguage.label,
+      selectedLanguage.code,
       vscode.ConfigurationTarget.Global
     );
-  return selectedLanguage.label;
+  return selectedLanguage.code;
 }
 
 /**
- * Returns user settings proxy config
+ * Rewrites the language settings holding a name, such as "French", with
+ * their code, in every scope they are set in. The unknown languages are
+ * reported, the translations ignore them.
  *
- * @returns {string}
+ * @returns {Promise<void>}
  */
-function getProxyConfig() {
-  const config = vscode.workspace.getConfiguration("vscodeGoogleTranslate");
-  return {
-    host: config.get("proxyHost"),
-    port: config.get("proxyPort"),
-    username: config.get("proxyUsername"),
-    password: config.get("proxyPassword"),
-  };
+async function migrateLanguageSettings() {
+  const scopes = [
+    {
+      config: vscode.workspace.getConfiguration("vscodeGoogleTranslate"),
+      key: "globalValue",
+      target: vscode.ConfigurationTarget.Global,
+    },
+    {
+      config: vscode.workspace.getConfiguration("vscodeGoogleTranslate"),
+      key: "workspaceValue",
+      target: vscode.ConfigurationTarget.Workspace,
+    },
+  ].concat(
+    (vscode.workspace.workspaceFolders || []).map((folder) => ({
+      config: vscode.workspace.getConfiguration("vscodeGoogleTranslate", folder.uri),
+      key: "workspaceFolderValue",
+      target: vscode.ConfigurationTarget.WorkspaceFolder,
+    }))
+  );
+  const unknown = [];
+  for (const name of LANGUAGE_SETTINGS) {
+    for (const scope of scopes) {
+      const inspected = scope.config.inspect(name);
+      const value = inspected && inspected[scope.key];
+      if (typeof value !== "string" || !value.trim() || value === "auto") {
+        continue;
+      }
+      const code = registry.resolve(value);
+      if (!code) {
+        if (!reportedLanguages.has(value)) {
+          reportedLanguages.add(value);
+          unknown.push(value);
+        }
+      } else if (code !== value) {
+        await scope.config.update(name, code, scope.target);
+      }
+    }
+  }
+  if (unknown.length) {
+    vscode.window.showWarningMessage(
+      `Unknown languages in the vscodeGoogleTranslate settings: ${unknown.join(", ")}. Use a code such as "fr" or "pt-BR", or a name such as "French".`
+    );
+  }
 }
 
 /**
  * Platform binding function
  *
  * @param {vscode.ExtensionContext} context
- * @returns {undefined} There is no an API public surface now (7/3/2019)
+ * @returns {import("./api").TranslateApi} The API of the other extensions, before the language server has started
  */
-async function activate(context) {
+function activate(context) {
+  const config = vscode.workspace.getConfiguration("vscodeGoogleTranslate");
+  scheduler = new BatchScheduler({
+    concurrency: config.get("maxConcurrentRequests"),
+    retries: config.get("maxRetries"),
+  });
+  cache = new TranslationCache(
+    path.join(context.globalStoragePath, "translation-cache.json"),
+    config.get("cacheSize")
+  );
+  memory = new TranslationMemory(getMemoryFile(context));
+  privacy = registerPrivacy(context);
+  migrateLanguageSettings().catch((e) => console.error(e));
+  reloadGlossary();
+  const glossaryWatcher = vscode.workspace.createFileSystemWatcher(
+    `**/${path.basename(
+      vscode.workspace
+        .getConfiguration("vscodeGoogleTranslate")
+        .get("glossaryFile")
+    )}`
+  );
+  glossaryWatcher.onDidCreate(reloadGlossary);
+  glossaryWatcher.onDidChange(reloadGlossary);
+  glossaryWatcher.onDidDelete(reloadGlossary);
+  context.subscriptions.push(
+    glossaryWatcher,
+    vscode.workspace.onDidChangeWorkspaceFolders(reloadGlossary),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("vscodeGoogleTranslate")) {
+        translator = null;
+      }
+      if (PROVIDER_SETTINGS.some((name) => e.affectsConfiguration(`vscodeGoogleTranslate.${name}`))) {
+        registry.clear();
+      }
+      if (LANGUAGE_SETTINGS.some((name) => e.affectsConfiguration(`vscodeGoogleTranslate.${name}`))) {
+        migrateLanguageSettings().catch((err) => console.error(err));
+      }
+      if (e.affectsConfiguration("vscodeGoogleTranslate.cacheSize")) {
+        cache.maxEntries = vscode.workspace
+          .getConfiguration("vscodeGoogleTranslate")
+          .get("cacheSize");
+      }
+      if (
+        e.affectsConfiguration("vscodeGoogleTranslate.maxConcurrentRequests") ||
+        e.affectsConfiguration("vscodeGoogleTranslate.maxRetries")
+      ) {
+        const config = vscode.workspace.getConfiguration("vscodeGoogleTranslate");
+        scheduler.concurrency = config.get("maxConcurrentRequests") || 1;
+        scheduler.retries = config.get("maxRetries");
+      }
+      if (e.affectsConfiguration("vscodeGoogleTranslate.glossaryFile")) {
+        reloadGlossary();
+      }
+      if (e.affectsConfiguration("vscodeGoogleTranslate.translationMemoryFile")) {
+        memory = new TranslationMemory(getMemoryFile(context));
+        if (client) {
+          client.sendNotification("translationMemoryFile", memory.file);
+        }
+      }
+    })
+  );
+
+  const clearTranslationCache = vscode.commands.registerCommand(
+    "extension.clearTranslationCache",
+    async function () {
+      cache.clear();
+      if (client) {
+        await client.sendRequest("clearTranslationCache");
+      }
+      vscode.window.showInformationMessage("Translation cache cleared");
+    }
+  );
+  context.subscriptions.push(clearTranslationCache);
+
   const translateText = vscode.commands.registerCommand(
     "extension.translateText",
     function () {
       const editor = vscode.window.activeTextEditor;
       const { document, selections } = editor;
+      if (privacy.warnIfExcluded(document.uri)) {
+        return;
+      }
 
-      const quickPickData = recentlyUsed
-        .map((r) => ({
-          label: r,
-          description: "(recently used)",
-        }))
-        .concat(languages.map((r) => ({ label: r.name })));
-
-      vscode.window
-        .showQuickPick(quickPickData)
-        .then((selectedLanguage) => {
-          if (!selectedLanguage) return;
-          updateLanguageList(selectedLanguage.label);
+      pickLanguages()
+        .then((selectedLanguages) => {
+          if (!selectedLanguages) return;
           const translationsPromiseArray = getTranslationsPromiseArray(
             selections,
             document,
-            languages.find((r) => r.name === selectedLanguage.label).value
+            selectedLanguages.to,
+            selectedLanguages.from
           );
-          Promise.all(translationsPromiseArray)
+          settleTranslations(translationsPromiseArray)
             .then(function (results) {
               editor.edit((builder) => {
                 results.forEach((r) => {
                   if (!!r.translation) {
-                    builder.replace(r.selection, he.decode(r.translation));
+                    builder.replace(r.selection, getReplacement(r));
                   }
                 });
               });
@@ -302,12 +801,12 @@ async function activate(context) {
     async function () {
       const editor = vscode.window.activeTextEditor;
       const { document, selections } = editor;
+      if (privacy.warnIfExcluded(document.uri)) {
+        return;
+      }
 
       // vscodeTranslate.preferredLanguage
-      const preferredLanguage = await getPreferredLanguage();
-      const locale = languages.find(
-        (element) => element.name === preferredLanguage
-      ).value;
+      const locale = await getPreferredLocale();
       if (!locale) {
         return;
       }
@@ -317,12 +816,12 @@ async function activate(context) {
         document,
         locale
       );
-      Promise.all(translationsPromiseArray)
+      settleTranslations(translationsPromiseArray)
         .then(function (results) {
           editor.edit((builder) => {
             results.forEach((r) => {
               if (!!r.translation) {
-                builder.replace(r.selection, he.decode(r.translation));
+                builder.replace(r.selection, getReplacement(r));
               }
             });
           });
@@ -337,25 +836,20 @@ async function activate(context) {
     function translateLinesUnderCursorcallback() {
       const editor = vscode.window.activeTextEditor;
       const { document, selections } = editor;
+      if (privacy.warnIfExcluded(document.uri)) {
+        return;
+      }
 
-      const quickPickData = recentlyUsed
-        .map((r) => ({
-          label: r.name,
-          description: "(recently used)",
-        }))
-        .concat(languages.map((r) => ({ label: r.name })));
-
-      vscode.window
-        .showQuickPick(quickPickData)
-        .then((selectedLanguage) => {
-          if (!selectedLanguage) return;
-          updateLanguageList(selectedLanguage.label);
+      pickLanguages()
+        .then((selectedLanguages) => {
+          if (!selectedLanguages) return;
           const translationsPromiseArray = getTranslationsPromiseArrayLine(
             selections,
             document,
-            languages.find((r) => r.name === selectedLanguage.label).value
+            selectedLanguages.to,
+            selectedLanguages.from
           );
-          Promise.all(translationsPromiseArray)
+          settleTranslations(translationsPromiseArray)
             .then(function (results) {
               editor.edit((builder) => {
                 results.forEach((r) => {
@@ -387,10 +881,10 @@ async function activate(context) {
     async function translateLinesUnderCursorPreferredcallback() {
       const editor = vscode.window.activeTextEditor;
       const { document, selections } = editor;
-      const preferredLanguage = await getPreferredLanguage();
-      const locale = languages.find(
-        (element) => element.name === preferredLanguage
-      ).value;
+      if (privacy.warnIfExcluded(document.uri)) {
+        return;
+      }
+      const locale = await getPreferredLocale();
       if (!locale) {
         vscode.window.showWarningMessage(
           "Prefered language is requeried for this feature! Please set this in the settings."
@@ -404,7 +898,7 @@ async function activate(context) {
         locale
       );
 
-      Promise.all(translationsPromiseArray)
+      settleTranslations(translationsPromiseArray)
         .then(function (results) {
           editor.edit((builder) => {
             results.forEach((r) => {
@@ -423,13 +917,84 @@ async function activate(context) {
   );
   context.subscriptions.push(translateLinesUnderCursorPreferred);
 
+  // Offered by the code actions of the hover server
+  const translateBlockTo = vscode.commands.registerCommand(
+    "extension.translateBlockTo",
+    async function (uri, position) {
+      const selectedLanguages = await pickLanguages();
+      if (!selectedLanguages) {
+        return;
+      }
+      await vscode.commands.executeCommand(
+        "vscodeGoogleTranslate.translateBlock",
+        uri,
+        position,
+        selectedLanguages.to,
+        selectedLanguages.from
+      );
+    }
+  );
+  context.subscriptions.push(translateBlockTo);
+
+  const replaceCommentWithTranslation = vscode.commands.registerCommand(
+    "extension.replaceCommentWithTranslation",
+    async function () {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        return;
+      }
+      if (!client) {
+        vscode.window.showWarningMessage(
+          "Replacing a comment with its translation requires HoverTranslations to be enabled."
+        );
+        return;
+      }
+      const { document, selection } = editor;
+      const line = document.lineAt(selection.active.line);
+      // The server reads the token before the position, so skip the indentation
+      const character = Math.max(
+        selection.active.character,
+        line.firstNonWhitespaceCharacterIndex + 1
+      );
+      await vscode.commands.executeCommand(
+        "vscodeGoogleTranslate.translateBlock",
+        document.uri.toString(),
+        { line: line.lineNumber, character },
+        undefined,
+        undefined,
+        { width: getWrapWidth(document), tabSize: editor.options.tabSize }
+      );
+    }
+  );
+  context.subscriptions.push(replaceCommentWithTranslation);
+
+  const services = {
+    getClient: () => client,
+    whenClientReady: () => clientReady,
+    getProvider,
+    getPreferredLocale,
+    getSourceLanguage,
+    getWrapWidth,
+    getMemory: () => memory,
+    getLanguages: () => registry,
+    isExcluded: privacy.isExcluded,
+    warnIfExcluded: privacy.warnIfExcluded,
+  };
+  registerDocumentTranslation(context, services);
+  const inlineTranslations = registerInlineTranslations(context, services);
+  registerLocaleCommands(context, services);
+  registerCommentLanguageScan(context, services);
+  registerBilingualComments(context, services);
+  registerTranslationMemory(context, services);
+  const api = createApi(context, services);
+
   // Don't initialize the server if it's not wanted
   if (
     !vscode.workspace
       .getConfiguration("vscodeGoogleTranslate")
       .get("HoverTranslations")
   ) {
-    return;
+    return api;
   }
 
   // All Below code initializes the Comment Hovering Translation feature
@@ -496,6 +1061,8 @@ async function activate(context) {
       grammarExtensions,
       appRoot: vscode.env.appRoot,
       userLanguage,
+      cacheFile: cache.file,
+      memoryFile: memory.file,
     },
     documentSelector: canLanguages
       .filter((v) => v)
@@ -510,7 +1077,23 @@ async function activate(context) {
   );
   // Start the client. This will also launch the server
   client.start();
-  await client.onReady();
+  clientReady = client.onReady();
+  clientReady.then(() => onClientReady(inlineTranslations)).catch((e) => console.error(e));
+  return api;
+}
+exports.activate = activate;
+
+/**
+ * Sends the state of the extension to the language server and answers its requests
+ *
+ * @param {{refresh: () => void}} inlineTranslations
+ */
+function onClientReady(inlineTranslations) {
+  client.sendNotification("glossary", glossary);
+  // The hover server sends nothing without the trust of the workspace, and logs it here
+  client.onRequest("confirmSending", (provider) => privacy.confirm(provider));
+  client.onNotification("sent", (entry) => privacy.log(entry, "hovers"));
+  inlineTranslations.refresh();
   client.onRequest("selectionContains", (textDocumentPosition) => {
     let editor = vscode.window.activeTextEditor;
     if (
@@ -534,16 +1117,18 @@ async function activate(context) {
     return null;
   });
 }
-exports.activate = activate;
 
 /**
  * Platform binding function
  * this method is called when your extension is deactivated
  *
  * @param {vscode.ExtensionContext} context
- * @returns {undefined} There is no an API public surface now (7/3/2019)
+ * @returns {Thenable<void>|undefined} Stops the language server, once the cache is written
  */
 function deactivate() {
+  if (cache) {
+    cache.flush();
+  }
   if (!client) {
     return undefined;
   }
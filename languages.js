@@ -1,3 +1,7 @@
+/**
+ * The languages known without asking the translation provider, with the
+ * other names they are looked up by
+ */
 const languages = [
 	{
 		name: 'Afrikaans',
@@ -15,8 +19,9 @@ const languages = [
 		name: 'Armenian',
 		value: 'hy',
 	}, {
-		name: 'Azeerbaijani',
+		name: 'Azerbaijani',
 		value: 'az',
+		aliases: ['Azeerbaijani', 'Azeri'],
 	}, {
 		name: 'Basque',
 		value: 'eu',
@@ -41,9 +46,11 @@ const languages = [
 	}, {
 		name: 'Chinese (Simplified)',
 		value: 'zh-CN',
+		aliases: ['Chinese', 'Simplified Chinese', 'Mandarin'],
 	}, {
 		name: 'Chinese (Traditional)',
 		value: 'zh-TW',
+		aliases: ['Traditional Chinese'],
 	}, {
 		name: 'Corsican',
 		value: 'co',
@@ -62,6 +69,14 @@ const languages = [
 	}, {
 		name: 'English',
 		value: 'en',
+	}, {
+		name: 'English (United Kingdom)',
+		value: 'en-GB',
+		aliases: ['British English'],
+	}, {
+		name: 'English (United States)',
+		value: 'en-US',
+		aliases: ['American English'],
 	}, {
 		name: 'Esperanto',
 		value: 'eo',
@@ -74,9 +89,14 @@ const languages = [
 	}, {
 		name: 'French',
 		value: 'fr',
+	}, {
+		name: 'French (Canada)',
+		value: 'fr-CA',
+		aliases: ['Canadian French'],
 	}, {
 		name: 'Frisian',
 		value: 'fy',
+		aliases: ['Western Frisian'],
 	}, {
 		name: 'Galician',
 		value: 'gl',
@@ -95,6 +115,7 @@ const languages = [
 	}, {
 		name: 'Haitian Creole',
 		value: 'ht',
+		aliases: ['Haitian'],
 	}, {
 		name: 'Hausa',
 		value: 'ha',
@@ -103,7 +124,7 @@ const languages = [
 		value: 'haw',
 	}, {
 		name: 'Hebrew',
-		value: 'iw',
+		value: 'he',
 	}, {
 		name: 'Hindi',
 		value: 'hi',
@@ -133,7 +154,7 @@ const languages = [
 		value: 'ja',
 	}, {
 		name: 'Javanese',
-		value: 'jw',
+		value: 'jv',
 	}, {
 		name: 'Kannada',
 		value: 'kn',
@@ -143,6 +164,7 @@ const languages = [
 	}, {
 		name: 'Khmer',
 		value: 'km',
+		aliases: ['Cambodian'],
 	}, {
 		name: 'Korean',
 		value: 'ko',
@@ -152,6 +174,7 @@ const languages = [
 	}, {
 		name: 'Kyrgyz',
 		value: 'ky',
+		aliases: ['Kirghiz'],
 	}, {
 		name: 'Lao',
 		value: 'lo',
@@ -194,6 +217,7 @@ const languages = [
 	}, {
 		name: 'Myanmar',
 		value: 'my',
+		aliases: ['Burmese'],
 	}, {
 		name: 'Nepali',
 		value: 'ne',
@@ -203,21 +227,33 @@ const languages = [
 	}, {
 		name: 'Nyanja',
 		value: 'ny',
+		aliases: ['Chichewa'],
 	}, {
 		name: 'Pashto',
 		value: 'ps',
+		aliases: ['Pushto'],
 	}, {
 		name: 'Persian',
 		value: 'fa',
+		aliases: ['Farsi'],
 	}, {
 		name: 'Polish',
 		value: 'pl',
 	}, {
 		name: 'Portuguese',
 		value: 'pt',
+	}, {
+		name: 'Portuguese (Brazil)',
+		value: 'pt-BR',
+		aliases: ['Brazilian Portuguese'],
+	}, {
+		name: 'Portuguese (Portugal)',
+		value: 'pt-PT',
+		aliases: ['European Portuguese'],
 	}, {
 		name: 'Punjabi',
 		value: 'pa',
+		aliases: ['Panjabi'],
 	}, {
 		name: 'Romanian',
 		value: 'ro',
@@ -230,12 +266,14 @@ const languages = [
 	}, {
 		name: 'Scots Gaelic',
 		value: 'gd',
+		aliases: ['Scottish Gaelic'],
 	}, {
 		name: 'Serbian',
 		value: 'sr',
 	}, {
 		name: 'Sesotho',
 		value: 'st',
+		aliases: ['Southern Sotho'],
 	}, {
 		name: 'Shona',
 		value: 'sn',
@@ -245,12 +283,14 @@ const languages = [
 	}, {
 		name: 'Sinhala',
 		value: 'si',
+		aliases: ['Sinhalese'],
 	}, {
 		name: 'Slovak',
 		value: 'sk',
 	}, {
 		name: 'Slovenian',
 		value: 'sl',
+		aliases: ['Slovene'],
 	}, {
 		name: 'Somali',
 		value: 'so',
@@ -269,6 +309,7 @@ const languages = [
 	}, {
 		name: 'Tagalog',
 		value: 'tl',
+		aliases: ['Filipino'],
 	}, {
 		name: 'Tajik',
 		value: 'tg',
@@ -293,6 +334,7 @@ const languages = [
 	}, {
 		name: 'Uyghur',
 		value: 'ug',
+		aliases: ['Uighur'],
 	}, {
 		name: 'Uzbek',
 		value: 'uz',
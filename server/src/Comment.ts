@@ -1,50 +1,315 @@
-import { TextDocumentPositionParams, Hover, TextDocuments, Connection, TextDocument } from "vscode-languageserver";
-import * as humanizeString from 'humanize-string';
+import { TextDocumentPositionParams, Hover, TextDocuments, Connection, TextDocument, Range, Position, CodeActionParams, CodeAction, CodeActionKind, Command, WorkspaceEdit, TextDocumentEdit, TextEdit, CancellationToken } from "vscode-languageserver";
 import { CommentParse, ICommentOption, ICommentBlock } from "./syntax/CommentParse";
+import { parseCommentLines, getCommentContent, readBlock, stripCommentMarkers, joinParagraphs, wrapText, displayWidth, replaceCommentContent, IStringSyntax } from "./syntax/CommentEdit";
+import { IBilingualComment, findBilingual, formatTag } from "./syntax/Bilingual";
+import { IScopeRulesSetting, resolveScopeRules } from "./syntax/ScopeRules";
 import { TextMateService } from "./syntax/TextMateService";
-import translate from "google-translate-open-api";
-import * as languages from "../../languages"
+import { createTranslator, getLanguageName, isSameLanguage, resolveLanguage } from "../../translation";
+import { BatchScheduler, Priority } from "../../translation/batch";
+import { TranslationCache } from "../../translation/cache";
+import { emptyGlossary } from "../../translation/glossary";
+import { TranslationMemory } from "../../translation/memory";
+import { parseIdentifier, toIdentifier } from "../../translation/identifier";
+import { MARKER, compilePatterns, defaultPatterns, mask } from "../../translation/mask";
+import { matchesGlobs } from "../../translation/glob";
+import { LanguageRegistry } from "../../translation/languages";
 
 
 export interface ICommentTranslateSettings {
     multiLineMerge: boolean;
     preferredLanguage: string;
+    sourceLanguage?: string;
+    provider?: string;
+    deeplApiKey?: string;
+    libreTranslateUrl?: string;
+    libreTranslateApiKey?: string;
+    customEndpointUrl?: string;
+    customEndpointHeaders?: { [name: string]: string };
+    cacheSize?: number;
+    maxConcurrentRequests?: number;
+    maxRetries?: number;
+    protectedPatterns?: string[];
+    scopeRules?: IScopeRulesSetting;
+    commentStripPatterns?: string[];
+    showScopes?: boolean;
+    translationMemoryMinScore?: number;
+    offlineMode?: boolean;
+    proxyHost?: string;
+    proxyPort?: string;
+    proxyUsername?: string;
+    proxyPassword?: string;
+    caFile?: string;
+    requestTimeout?: number;
+    redact?: string[];
+    redactPatterns?: string[];
+    translationExclude?: string[];
+}
+
+export interface ITranslateResult {
+    text: string;
+    from?: string;
+    glossary?: string[];
+    /** The text is already in the target language, it is kept as it is */
+    skipped?: boolean;
+    /** The text is an error message */
+    failed?: boolean;
+    /** The translation comes from the translation memory */
+    memory?: { score: number, source: string };
+}
+
+// The glossaries of the workspace folders, merged by the extension
+export interface IGlossary {
+    // Terms kept as they are
+    doNotTranslate: string[];
+    // The fixed translations of each term, by target language
+    terms: { [term: string]: { [language: string]: string } };
+}
+
+// What was sent to a provider, logged by the extension
+export interface ISentEntry {
+    provider: string;
+    kind: 'translate' | 'detect';
+    from?: string;
+    to?: string;
+    // As sent, redacted
+    texts: string[];
+    redacted: number;
+}
+
+export interface IMemoryMatch {
+    entry: { source: string, target: string, from: string, to: string, provider: string };
+    // The similarity of the source texts, 1 for the same text
+    score: number;
+}
+
+// The provider of the settings behind the privacy guard, the cache, the glossary and the translation memory
+export interface ITranslator {
+    id: string;
+    name: string;
+    translate(text: string, options: { from?: string, to: string } & IRequestOptions): Promise<ITranslateResult>;
+    detect(text: string, options?: IRequestOptions): Promise<string | undefined>;
+    // The similar translations of the translation memory, the best first
+    suggest(text: string, languages: { from?: string, to: string }): IMemoryMatch[];
+}
+
+// Run by the server, translates the block at a position and applies the edit
+export const TRANSLATE_BLOCK_COMMAND = 'vscodeGoogleTranslate.translateBlock';
+// Run by the extension, asks for the languages then runs TRANSLATE_BLOCK_COMMAND
+const TRANSLATE_BLOCK_TO_COMMAND = 'extension.translateBlockTo';
+// Run by the extension, runs TRANSLATE_BLOCK_COMMAND writing the translation under the comment
+export const TRANSLATE_UNDER_COMMENT_COMMAND = 'extension.translateUnderComment';
+
+// Shorter comments are too often misdetected to be reported
+const MIN_DETECTED_LETTERS = 12;
+
+// Narrower wrapped comments are hard to read, they may go past the ruler
+const MIN_WRAP_WIDTH = 20;
+
+export interface ITranslationEditOptions {
+    // Translate the comment paragraph by paragraph and wrap them at this column
+    width?: number;
+    tabSize?: number;
+    // Write the translation under the comment, tagged with the hash of the comment
+    bilingual?: boolean;
+}
+
+// How a translation request waits in the scheduler
+export interface IRequestOptions {
+    priority?: number;
+    token?: CancellationToken;
+}
+
+export interface IForeignComment {
+    range: Range;
+    from: string;
+}
+
+// A comment followed by its translation, they may be one comment block or two
+interface IBilingualBlock extends IBilingualComment {
+    range: Range;
+    // From the start of the first line of the translation
+    translationRange: Range;
+}
+
+// A comment, string or identifier of the extension API
+export interface ITranslatableBlock {
+    kind: 'comment' | 'string' | 'identifier';
+    // Without delimiters, quotes and escapes, the words of an identifier
+    text: string;
+    range: Range;
+    languageId: string;
+}
+
+// A comment of the translated views, with its text without delimiters
+export interface ICommentText extends ICommentBlock {
+    text: string;
+}
+
+export interface IStaleTranslation {
+    range: Range;
+    language: string;
+}
+
+function containsLine(range: Range, line: number) {
+    return range.start.line <= line && line <= range.end.line;
+}
+
+function isBefore(a: Position, b: Position) {
+    return a.line < b.line || (a.line === b.line && a.character <= b.character);
+}
+
+function containsRange(range: Range, inner: Range) {
+    return isBefore(range.start, inner.start) && isBefore(inner.end, range.end);
+}
+
+// The path of a file URI, the URI itself when it can't be decoded
+export function uriToPath(uri: string) {
+    try {
+        return decodeURIComponent(uri.replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, ''));
+    } catch (e) {
+        return uri;
+    }
+}
+
+// The line break ending a line of a document, none on its last line
+function lineBreak(textDocument: TextDocument, line: number) {
+    const text = textDocument.getText(Range.create(line, 0, line + 1, 0));
+    return /\r\n$/.test(text) ? '\r\n' : /\n$/.test(text) ? '\n' : '';
 }
 
 export class Comment {
 
     private _textMateService: TextMateService;
     private _setting: ICommentTranslateSettings;
+    private _cache: TranslationCache;
+    private _scheduler = new BatchScheduler();
+    private _glossary: IGlossary = emptyGlossary();
+    private _memory: TranslationMemory;
+    private _languages = new LanguageRegistry();
+    // The compiled strip patterns by language
+    private _markers: Map<string, RegExp | null> = new Map();
+    private _provider: ITranslator;
     private _commentParseCache: Map<string, CommentParse> = new Map();
 
     constructor(extensions: ICommentOption, private _documents: TextDocuments, private _connection: Connection) {
-        this._setting = { multiLineMerge: false, preferredLanguage: extensions.userLanguage };
+        this._setting = { multiLineMerge: false, preferredLanguage: this._languages.resolve(extensions.userLanguage) || 'en' };
         this._textMateService = new TextMateService(extensions.grammarExtensions, extensions.appRoot);
+        this._cache = new TranslationCache(extensions.cacheFile);
+        this._memory = new TranslationMemory(extensions.memoryFile);
+        this._provider = this._createTranslator();
         _documents.onDidClose(e => this._removeCommentParse(e.document));
-        _documents.onDidChangeContent(e => this._removeCommentParse(e.document))
+        _documents.onDidChangeContent(e => this._updateCommentParse(e.document))
     }
 
     setSetting(newSetting: ICommentTranslateSettings) {
-        if (!newSetting.preferredLanguage) {
-            newSetting.preferredLanguage = this._setting.preferredLanguage;
-        }
+        // A code or a name, an unknown language keeps the previous one and the extension reports it
+        newSetting.preferredLanguage = this._languages.resolve(newSetting.preferredLanguage) || this._setting.preferredLanguage;
         this._setting = Object.assign(this._setting, newSetting);
-        this._setting.preferredLanguage = languages.find(element => element.name === this._setting.preferredLanguage).value
+        if (typeof this._setting.cacheSize === 'number') {
+            this._cache.maxEntries = this._setting.cacheSize;
+        }
+        if (this._setting.maxConcurrentRequests > 0) {
+            this._scheduler.concurrency = this._setting.maxConcurrentRequests;
+        }
+        if (typeof this._setting.maxRetries === 'number') {
+            this._scheduler.retries = this._setting.maxRetries;
+        }
+        // The parses hold the scope rules of their languages
+        this._markers.clear();
+        this._commentParseCache.clear();
+        // The provider or its settings may have changed
+        this._languages.clear();
+        this._provider = this._createTranslator();
+    }
 
+    setGlossary(glossary: IGlossary) {
+        this._glossary = glossary;
+        this._provider = this._createTranslator();
     }
 
-    async translate(text: string) {
-        const translationConfiguration = {
-            to: this._setting.preferredLanguage,
+    setMemoryFile(file: string) {
+        this._memory = new TranslationMemory(file);
+        this._provider = this._createTranslator();
+    }
+
+    private _createTranslator(): ITranslator {
+        // The extension asks the user and logs what is sent, for both processes
+        const privacy = {
+            confirm: (provider: string) => this._connection.sendRequest<boolean>('confirmSending', provider),
+            onSend: (entry: ISentEntry) => this._connection.sendNotification('sent', entry)
         };
-        return await translate(text, translationConfiguration).then(res => {
-            if (!!res && !!res.data) {
-                  return res.data[0];
+        return createTranslator(this._setting, { scheduler: this._scheduler, cache: this._cache, glossary: this._glossary, memory: this._memory, privacy, languages: this._languages });
+    }
+
+    /**
+     * Tells whether the text of a document is never sent, see the translationExclude setting
+     */
+    isExcluded(uri: string) {
+        return matchesGlobs(uriToPath(uri), this._setting.translationExclude || []);
+    }
+
+    clearCache() {
+        this._cache.clear();
+    }
+
+    flushCache() {
+        this._cache.flush();
+    }
+
+    async translate(text: string) {
+        return (await this._translate(text)).text;
+    }
+
+    /**
+     * @param suggest Use the best similar translation of the translation memory instead of the provider
+     * @throws When the request is cancelled, the other errors are written as the result
+     */
+    private async _translate(text: string, to: string = this._setting.preferredLanguage, source: string = this._setting.sourceLanguage, suggest: boolean = false, request: IRequestOptions = {}): Promise<ITranslateResult> {
+        try {
+            let from = resolveLanguage(source);
+            if (suggest) {
+                const [match] = this._provider.suggest(text, { from, to });
+                if (match) {
+                    return { text: match.entry.target, from: match.entry.from, memory: { score: match.score, source: match.entry.source } };
+                }
+            }
+            const res: ITranslateResult = await this._provider.translate(text, Object.assign({ from, to }, request));
+            if (!!res && !!res.text) {
+                // The detected language comes with the translation, a detection request would cost as much
+                if (!from && isSameLanguage(res.from, to)) {
+                    return { text, from: res.from, skipped: true };
+                }
+                return Object.assign({}, res, { from: res.from || from });
             } else {
-              return "Google Translate API Error";
+                return { text: `${this._provider.name} API Error`, failed: true };
             }
-          });
-    } 
+        } catch (e) {
+            if (e.cancelled) throw e;
+            // The proxy, certificate and timeout errors tell what to check, as the denied translations
+            return { text: e.network || e.denied ? e.message : `${this._provider.name} API Error: ${e.message}`, failed: true };
+        }
+    }
+
+    private _formatHover(res: ITranslateResult, prefix: string = '', suggestion?: string) {
+        let contents = prefix + res.text;
+        if (suggestion && suggestion !== res.text) {
+            contents += `\n\n\`${suggestion}\``;
+        }
+        const notes = [];
+        if (res.from) {
+            notes.push(`${res.from} → ${this._setting.preferredLanguage}`);
+        }
+        if (res.glossary && res.glossary.length) {
+            notes.push(`Glossary: ${res.glossary.join(', ')}`);
+        }
+        if (res.memory) {
+            notes.push(res.memory.score < 1 ? `Translation memory ${Math.round(res.memory.score * 100)}%: ${res.memory.source}` : 'Translation memory');
+        }
+        if (notes.length) {
+            contents += `\n\n*${notes.join(' · ')}*`;
+        }
+        return contents;
+    }
     
     private async _getSelectionContainPosition(textDocumentPosition: TextDocumentPositionParams): Promise<ICommentBlock> {
         return await this._connection.sendRequest<ICommentBlock>('selectionContains', textDocumentPosition);
@@ -55,34 +320,355 @@ export class Comment {
         this._commentParseCache.delete(key);
     }
 
+    _updateCommentParse(textDocument: TextDocument) {
+        const key = `${textDocument.languageId}-${textDocument.uri}`;
+        const parse = this._commentParseCache.get(key);
+        parse && parse.update(textDocument);
+    }
+
     async _getCommentParse(textDocument: TextDocument) {
         const key = `${textDocument.languageId}-${textDocument.uri}`;
         if (this._commentParseCache.has(key)) {
             return this._commentParseCache.get(key);
         }
-        const grammar = await this._textMateService.createGrammar(textDocument.languageId);
-        const parse: CommentParse = new CommentParse(textDocument, grammar, this._setting.multiLineMerge);
+        const parse = await this._createCommentParse(textDocument);
         this._commentParseCache.set(key, parse);
         return parse;
     }
 
-    async getComment(textDocumentPosition: TextDocumentPositionParams): Promise<Hover> {
-        const textDocument = this._documents.get(textDocumentPosition.textDocument.uri);
+    private async _createCommentParse(textDocument: TextDocument) {
+        const grammar = await this._textMateService.createGrammar(textDocument.languageId);
+        const embeddedLanguages = this._textMateService.getEmbeddedLanguages(textDocument.languageId);
+        return new CommentParse(textDocument, grammar, this._setting.multiLineMerge, languageId => resolveScopeRules(this._setting.scopeRules, languageId), embeddedLanguages);
+    }
+
+    private _getMarkers(block: ICommentBlock, textDocument: TextDocument): RegExp | null {
+        const languageId = block.languageId || textDocument.languageId;
+        if (!this._markers.has(languageId)) {
+            const rules = resolveScopeRules(this._setting.scopeRules, languageId);
+            this._markers.set(languageId, compilePatterns((this._setting.commentStripPatterns || []).concat(rules.strip)));
+        }
+        return this._markers.get(languageId);
+    }
+
+    /**
+     * The comments of a document, the ones without text left out
+     */
+    async getCommentBlocks(uri: string, range?: Range): Promise<ICommentText[]> {
+        const textDocument = this._documents.get(uri);
+        if (!textDocument) return null;
+
+        const parse = await this._getCommentParse(textDocument);
+        const blocks = range ? parse.getCommentBlocks(range.start.line, range.end.line) : parse.getCommentBlocks();
+        return blocks
+            .map(block => {
+                const source = readBlock(textDocument, block, this._getMarkers(block, textDocument));
+                return source && source.text.trim() ? Object.assign({}, block, { text: source.text }) : null;
+            })
+            .filter(block => !!block);
+    }
+
+    /**
+     * Writes translations in place of the text of comments, keeping their delimiters
+     *
+     * @returns The new text of each block, nothing when the document is closed
+     */
+    writeComments(uri: string, blocks: ICommentBlock[], translations: string[]): string[] | null {
+        const textDocument = this._documents.get(uri);
+        if (!textDocument) return null;
+
+        return blocks.map((block, i) => {
+            const source = readBlock(textDocument, block, this._getMarkers(block, textDocument));
+            return source ? source.write(translations[i]) : textDocument.getText(block.range);
+        });
+    }
+
+    /**
+     * The text the hover would translate at a position, for the extension API
+     */
+    async getTranslatableBlock(uri: string, position: Position): Promise<ITranslatableBlock | null> {
+        const textDocument = this._documents.get(uri);
+        if (!textDocument) return null;
+
+        const parse = await this._getCommentParse(textDocument);
+        const block = parse.computeText(position);
+        if (!block) return null;
+        const languageId = block.languageId || textDocument.languageId;
+        if (block.humanize) {
+            const identifier = parseIdentifier(block.comment);
+            const text = identifier ? identifier.words.join(' ') : block.comment;
+            return { kind: 'identifier', text, range: block.range, languageId };
+        }
+        const source = readBlock(textDocument, block, this._getMarkers(block, textDocument));
+        if (!source) return null;
+        return { kind: block.literal ? 'string' : 'comment', text: source.text, range: source.range, languageId };
+    }
+
+    /**
+     * The string literal holding a range of a document, for the commands
+     * translating a selection to escape their translation
+     *
+     * @returns The content of the literal, quotes excluded, and how it is written
+     */
+    async getStringLiteral(uri: string, range: Range): Promise<{ range: Range, syntax: IStringSyntax } | null> {
+        const textDocument = this._documents.get(uri);
+        if (!textDocument) return null;
+
+        const parse = await this._getCommentParse(textDocument);
+        const block = parse.computeText(range.end);
+        if (!block || !block.literal) return null;
+        const source = readBlock(textDocument, block);
+        if (!source || !containsRange(source.range, range)) return null;
+        return { range: source.range, syntax: source.syntax };
+    }
+
+    /**
+     * Finds the comments of a document written in another language than `language`
+     *
+     * @param cached Whether the parse of the document is kept, false for the documents that aren't open
+     */
+    async findForeignComments(textDocument: TextDocument, language: string, cached: boolean = true): Promise<IForeignComment[]> {
+        const parse = cached ? await this._getCommentParse(textDocument) : await this._createCommentParse(textDocument);
+        const code = compilePatterns(this._setting.protectedPatterns || defaultPatterns);
+        const blocks = parse.getCommentBlocks();
+        // A comment written with its translation holds both languages on purpose
+        const bilingual = this._findBilingualBlocks(textDocument, blocks);
+        const found = await Promise.all(blocks.map(async (block): Promise<IForeignComment> => {
+            if (bilingual.some(pair => containsLine(pair.range, block.range.start.line))) return null;
+            const content = getCommentContent(parseCommentLines(block.comment, this._getMarkers(block, textDocument)));
+            if (!content) return null;
+            // Code and identifiers in the comment don't count
+            const prose = mask(content.text, code).text.replace(MARKER, ' ');
+            const letters = prose.match(/\p{L}/gu);
+            if (!letters || letters.length < MIN_DETECTED_LETTERS) return null;
+            const from = await this._provider.detect(prose, { priority: Priority.background }).catch((): string => undefined);
+            return from && !isSameLanguage(from, language) ? { range: block.range, from } : null;
+        }));
+        return found.filter(comment => !!comment);
+    }
+
+    async getCodeActions(params: CodeActionParams): Promise<CodeAction[]> {
+        const textDocument = this._documents.get(params.textDocument.uri);
+        if (!textDocument || this.isExcluded(textDocument.uri)) return null;
+
+        const parse = await this._getCommentParse(textDocument);
+        const block = parse.computeText(params.range.start);
+        if (!block || block.humanize || !block.comment.trim()) return null;
+
+        const to = this._setting.preferredLanguage;
+        const title = block.literal ? 'Translate string literal' : 'Translate comment';
+        const args = [textDocument.uri, params.range.start];
+        const actions = [
+            CodeAction.create(`${title} to ${getLanguageName(to)}`, Command.create(title, TRANSLATE_BLOCK_COMMAND, ...args, to), CodeActionKind.QuickFix),
+            CodeAction.create('Translate to…', Command.create('Translate to…', TRANSLATE_BLOCK_TO_COMMAND, ...args), CodeActionKind.QuickFix)
+        ];
+        if (!block.literal) {
+            const under = 'Write translation under comment';
+            actions.push(CodeAction.create(under, Command.create(under, TRANSLATE_UNDER_COMMENT_COMMAND, ...args), CodeActionKind.QuickFix));
+        }
+        return actions;
+    }
+
+    /**
+     * Finds the comments followed by their tagged translation. When a block
+     * comment doesn't continue on the next line, the translation is a block of
+     * its own following the block of its source.
+     */
+    private _findBilingualBlocks(textDocument: TextDocument, blocks: ICommentBlock[]): IBilingualBlock[] {
+        const found: IBilingualBlock[] = [];
+        blocks.forEach((block, i) => {
+            const markers = this._getMarkers(block, textDocument);
+            const read = (range: Range) => findBilingual(parseCommentLines(textDocument.getText(range), markers));
+            let range = block.range;
+            let bilingual = read(range);
+            const previous = blocks[i - 1];
+            if (!bilingual && previous && previous.languageId === block.languageId && previous.range.end.line === block.range.start.line - 1) {
+                range = Range.create(previous.range.start, block.range.end);
+                bilingual = read(range);
+                // The tag must be in this block, the previous one may be a translation itself
+                if (bilingual && bilingual.source.length <= previous.range.end.line - previous.range.start.line) {
+                    bilingual = null;
+                }
+            }
+            if (bilingual) {
+                const translationRange = Range.create(range.start.line + bilingual.source.length, 0, range.end.line, range.end.character);
+                found.push(Object.assign(bilingual, { range, translationRange }));
+            }
+        });
+        return found;
+    }
+
+    /**
+     * Finds the translations whose source comment changed since they were written
+     *
+     * @param cached Whether the parse of the document is kept, false for the documents that aren't open
+     */
+    async findStaleTranslations(textDocument: TextDocument, cached: boolean = true): Promise<IStaleTranslation[]> {
+        const parse = cached ? await this._getCommentParse(textDocument) : await this._createCommentParse(textDocument);
+        return this._findBilingualBlocks(textDocument, parse.getCommentBlocks())
+            .filter(bilingual => bilingual.stale)
+            .map(bilingual => {
+                const { start, end } = bilingual.translationRange;
+                return { range: Range.create(start.line, bilingual.translation[0].indent.length, end.line, end.character), language: bilingual.language };
+            });
+    }
+
+    /**
+     * Translates again the stale translations of a document
+     *
+     * @returns The edits, and how many translations failed
+     */
+    async getRefreshEdits(textDocument: TextDocument, options: ITranslationEditOptions = {}, cached: boolean = true): Promise<{ edits: TextEdit[], failed: number }> {
+        if (this.isExcluded(textDocument.uri)) return { edits: [], failed: 0 };
+        const parse = cached ? await this._getCommentParse(textDocument) : await this._createCommentParse(textDocument);
+        const stale = this._findBilingualBlocks(textDocument, parse.getCommentBlocks()).filter(bilingual => bilingual.stale);
+        let failed = 0;
+        const edits = await Promise.all(stale.map(bilingual => this._refreshBilingual(textDocument, bilingual, bilingual.language, undefined, options, Priority.background).catch((): TextEdit => {
+            failed++;
+            return null;
+        })));
+        return { edits: edits.filter(edit => !!edit), failed };
+    }
+
+    /**
+     * Translates the text of a comment, tagged when it is written under the comment
+     *
+     * @param leading What precedes the translation on its first line, to know the width left
+     * @returns Nothing when the text is already in the target language
+     */
+    private async _translateComment(text: string, leading: string, to: string, from: string, options: ITranslationEditOptions, priority: number = Priority.normal): Promise<string | null> {
+        const paragraphs = options.width > 0;
+        const source = paragraphs ? joinParagraphs(text) : text;
+        const res = await this._translate(source, to, from, false, { priority });
+        if (res.failed) throw new Error(res.text);
+        if (res.skipped) return null;
+        if (!res.memory) {
+            // The machine translations wait for a user to approve them in the memory
+            this._memory.add({ source, target: res.text, from: res.from, to: to || this._setting.preferredLanguage, provider: this._provider.id, approved: false });
+        }
+        const translation = (options.bilingual ? formatTag(to, text) : '') + res.text;
+        if (!paragraphs) {
+            return translation;
+        }
+        const column = displayWidth(leading.replace(/\t/g, ' '.repeat(options.tabSize || 4)));
+        return wrapText(translation, Math.max(options.width - column, MIN_WRAP_WIDTH));
+    }
+
+    /**
+     * Writes the translation of a bilingual comment again, in place of the previous one
+     */
+    private async _refreshBilingual(textDocument: TextDocument, bilingual: IBilingualBlock, to: string, from: string, options: ITranslationEditOptions, priority: number = Priority.normal): Promise<TextEdit | null> {
+        const template = bilingual.translation;
+        const content = getCommentContent(template);
+        const line = template[content ? content.first : 0];
+        const translation = await this._translateComment(bilingual.sourceText, line.indent + line.prefix, to, from, Object.assign({}, options, { bilingual: true }), priority);
+        if (translation === null) return null;
+        const eol = lineBreak(textDocument, bilingual.range.start.line) || '\n';
+        return TextEdit.replace(bilingual.translationRange, replaceCommentContent(template, translation, template[0].indent, eol));
+    }
+
+    /**
+     * Writes the translation of a comment on the lines following it, in the same style
+     */
+    private async _insertBilingual(textDocument: TextDocument, block: ICommentBlock, to: string, from: string, options: ITranslationEditOptions): Promise<TextEdit | null> {
+        const lines = parseCommentLines(textDocument.getText(block.range), this._getMarkers(block, textDocument));
+        const content = getCommentContent(lines);
+        if (!content) return null;
+        // The translation of a comment following some code is aligned with the code
+        const indent = /^\s*/.exec(textDocument.getText(Range.create(block.range.start.line, 0, block.range.start.line, block.range.start.character)))[0];
+        const line = lines[content.first];
+        const translation = await this._translateComment(content.text, (content.first === 0 ? indent : line.indent) + line.prefix, to, from, options);
+        if (translation === null) return null;
+        const end = block.range.end.line;
+        const eol = lineBreak(textDocument, end);
+        const lineText = textDocument.getText(Range.create(end, 0, end + 1, 0));
+        return TextEdit.insert(Position.create(end, lineText.length - eol.length), (eol || '\n') + indent + replaceCommentContent(lines, translation, indent, eol || '\n'));
+    }
+
+    /**
+     * Translates the comment or the string literal at a position.
+     * Resolves nothing when it is already in the target language.
+     *
+     * @param options `width` wraps the translation of a comment, `bilingual` writes it under the comment
+     */
+    async getTranslationEdit(uri: string, position: Position, to?: string, from?: string, options: ITranslationEditOptions = {}): Promise<WorkspaceEdit> {
+        const textDocument = this._documents.get(uri);
         if (!textDocument) return null;
+        if (this.isExcluded(uri)) {
+            throw new Error('The text of this file is never sent, it matches vscodeGoogleTranslate.translationExclude');
+        }
 
         const parse = await this._getCommentParse(textDocument);
+        const block = parse.computeText(position);
+        if (!block || block.humanize) {
+            throw new Error('There is no comment or string to translate here');
+        }
+        let edit: TextEdit | null;
+        if (options.bilingual) {
+            if (block.literal) {
+                throw new Error('Only the translation of a comment can be written under it');
+            }
+            const bilingual = this._findBilingualBlocks(textDocument, parse.getCommentBlocks())
+                .find(pair => containsLine(pair.range, position.line));
+            // Refresh the translation of a bilingual comment, in the language of its tag by default
+            edit = bilingual
+                ? await this._refreshBilingual(textDocument, bilingual, to || bilingual.language, from, options)
+                : await this._insertBilingual(textDocument, block, to || this._setting.preferredLanguage, from, options);
+        } else {
+            const source = readBlock(textDocument, block, this._getMarkers(block, textDocument));
+            if (!source) return null;
+            const translation = await this._translateComment(source.text, source.leading, to, from, block.literal ? {} : options);
+            edit = translation === null ? null : TextEdit.replace(source.range, source.write(translation));
+        }
+        if (!edit) return null;
+        return {
+            documentChanges: [
+                TextDocumentEdit.create({ uri, version: textDocument.version }, [edit])
+            ]
+        };
+    }
+
+    /**
+     * Translates the comment, string or identifier under the position, ahead of the background translations
+     * @throws When the token is cancelled while the translation waits or runs
+     */
+    async getComment(textDocumentPosition: TextDocumentPositionParams, token?: CancellationToken): Promise<Hover> {
+        const textDocument = this._documents.get(textDocumentPosition.textDocument.uri);
+        if (!textDocument || this.isExcluded(textDocument.uri)) return null;
+
+        const parse = await this._getCommentParse(textDocument);
+        const hover = await this._getTranslationHover(textDocument, parse, textDocumentPosition, { priority: Priority.interactive, token });
+        if (!this._setting.showScopes) return hover;
+
+        // Lists the scopes to write the scope rules of a language
+        const { scopes, category, languageId } = parse.getScopes(textDocumentPosition.position);
+        const debug = `**Scopes** · ${languageId} · ${category || 'not translated'}\n\n` + scopes.map(scope => `- \`${scope}\``).join('\n');
+        return {
+            contents: (hover ? <string[]>hover.contents : []).concat(debug),
+            range: hover ? hover.range : undefined
+        };
+    }
+
+    private async _getTranslationHover(textDocument: TextDocument, parse: CommentParse, textDocumentPosition: TextDocumentPositionParams, request: IRequestOptions): Promise<Hover> {
         const block = await this._getSelectionContainPosition(textDocumentPosition) || parse.computeText(textDocumentPosition.position);
         if (block) {
             if (block.humanize) {
-                const humanize = humanizeString(block.comment);
-                const targetLanguageComment = await this.translate(humanize);
+                // Show the words of the identifier and the translation written the same way
+                const identifier = parseIdentifier(block.comment);
+                const humanize = identifier ? identifier.words.join(' ') : block.comment;
+                const targetLanguageComment = await this._translate(humanize, undefined, undefined, true, request);
+                if (targetLanguageComment.skipped) return null;
+                const suggestion = identifier && !targetLanguageComment.failed
+                    ? toIdentifier(targetLanguageComment.text, identifier, block.languageId || textDocument.languageId)
+                    : undefined;
                 return {
-                    contents: [humanize + ' => ' + targetLanguageComment], range: block.range
+                    contents: [this._formatHover(targetLanguageComment, humanize + ' => ', suggestion)], range: block.range
                 };
             } else {
-                const targetLanguageComment = await this.translate(block.comment);
+                const targetLanguageComment = await this._translate(stripCommentMarkers(block.comment, this._getMarkers(block, textDocument)), undefined, undefined, true, request);
+                if (targetLanguageComment.skipped) return null;
                 return {
-                    contents: [targetLanguageComment],
+                    contents: [this._formatHover(targetLanguageComment)],
                     range: block.range
                 };
             }
@@ -0,0 +1,118 @@
+import { TextDocuments, Connection, TextDocument, Diagnostic, DiagnosticSeverity, CodeActionParams, CodeAction, CodeActionKind, Command } from "vscode-languageserver";
+import { getLanguageName, resolveLanguage } from "../../translation";
+import { matchesGlobs } from "../../translation/glob";
+import { Comment, TRANSLATE_BLOCK_COMMAND, TRANSLATE_UNDER_COMMENT_COMMAND, uriToPath } from "./Comment";
+
+export const COMMENT_LANGUAGE_DIAGNOSTIC = 'commentLanguage';
+export const STALE_TRANSLATION_DIAGNOSTIC = 'staleTranslation';
+
+export interface ICommentLanguageSettings {
+    commentLanguage?: string;
+    commentLanguageSeverity?: string;
+    commentLanguageExclude?: string[];
+}
+
+const severities: { [name: string]: DiagnosticSeverity } = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    information: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+};
+
+/**
+ * Reports the comments written in another language than the project language,
+ * and the translations written under a comment which changed since
+ */
+export class CommentDiagnostics {
+
+    private _language: string;
+    private _severity: DiagnosticSeverity = DiagnosticSeverity.Warning;
+    private _exclude: string[] = [];
+    private _timers: Map<string, NodeJS.Timer> = new Map();
+    private _published: Set<string> = new Set();
+
+    constructor(private _comment: Comment, private _documents: TextDocuments, private _connection: Connection) {
+        // Also fired when a document is opened
+        _documents.onDidChangeContent(e => this._schedule(e.document));
+    }
+
+    setSetting(setting: ICommentLanguageSettings) {
+        this._language = resolveLanguage(setting.commentLanguage);
+        this._severity = severities[setting.commentLanguageSeverity] || DiagnosticSeverity.Warning;
+        this._exclude = setting.commentLanguageExclude || [];
+        this._documents.all().forEach(textDocument => this._schedule(textDocument));
+    }
+
+    private _schedule(textDocument: TextDocument) {
+        clearTimeout(this._timers.get(textDocument.uri));
+        this._timers.set(textDocument.uri, setTimeout(() => {
+            this._timers.delete(textDocument.uri);
+            this.check(textDocument).catch(e => this._connection.console.error(e.message));
+        }, 1000));
+    }
+
+    /**
+     * Checks a document and publishes its diagnostics
+     *
+     * @param cached Whether the document is open, the parses of the others aren't kept
+     * @returns How many comments are written in another language
+     */
+    async check(textDocument: TextDocument, cached: boolean = true): Promise<number> {
+        const language = this._language;
+        const checked = !!language && !matchesGlobs(uriToPath(textDocument.uri), this._exclude) && !this._comment.isExcluded(textDocument.uri);
+        const [comments, stale] = await Promise.all([
+            checked ? this._comment.findForeignComments(textDocument, language, cached) : [],
+            this._comment.findStaleTranslations(textDocument, cached)
+        ]);
+        const current = this._documents.get(textDocument.uri);
+        if (cached && current && current.version !== textDocument.version) {
+            // The document changed meanwhile, it is checked again
+            return 0;
+        }
+        this._publish(textDocument.uri, comments.map((comment): Diagnostic => ({
+            range: comment.range,
+            severity: this._severity,
+            code: COMMENT_LANGUAGE_DIAGNOSTIC,
+            source: 'Comment Translate',
+            message: `This comment is written in ${getLanguageName(comment.from)} instead of ${getLanguageName(language)}`
+        })).concat(stale.map((translation): Diagnostic => ({
+            range: translation.range,
+            severity: DiagnosticSeverity.Warning,
+            code: STALE_TRANSLATION_DIAGNOSTIC,
+            source: 'Comment Translate',
+            message: `The comment changed since its ${getLanguageName(translation.language)} translation was written`
+        }))));
+        return comments.length;
+    }
+
+    private _publish(uri: string, diagnostics: Diagnostic[]) {
+        if (!diagnostics.length && !this._published.has(uri)) {
+            return;
+        }
+        diagnostics.length ? this._published.add(uri) : this._published.delete(uri);
+        this._connection.sendDiagnostics({ uri, diagnostics });
+    }
+
+    /**
+     * Offers to replace the reported comments with their translation,
+     * and to refresh the stale translations
+     */
+    getCodeActions(params: CodeActionParams): CodeAction[] {
+        return params.context.diagnostics
+            .filter(diagnostic => diagnostic.code === STALE_TRANSLATION_DIAGNOSTIC || (diagnostic.code === COMMENT_LANGUAGE_DIAGNOSTIC && !!this._language))
+            .map(diagnostic => {
+                // Positions name the character before them, so point inside the comment
+                const position = { line: diagnostic.range.start.line, character: diagnostic.range.start.character + 1 };
+                let command: Command;
+                if (diagnostic.code === STALE_TRANSLATION_DIAGNOSTIC) {
+                    command = Command.create('Refresh the translation', TRANSLATE_UNDER_COMMENT_COMMAND, params.textDocument.uri, position);
+                } else {
+                    const title = `Replace comment with its ${getLanguageName(this._language)} translation`;
+                    command = Command.create(title, TRANSLATE_BLOCK_COMMAND, params.textDocument.uri, position, this._language);
+                }
+                const action = CodeAction.create(command.title, command, CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                return action;
+            });
+    }
+}
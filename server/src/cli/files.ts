@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp, matchesGlobs } from '../../../translation/glob';
+
+export const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**'];
+
+function toSlashes(file: string) {
+    return file.split(path.sep).join('/');
+}
+
+function walk(dir: string, exclude: string[], files: string[]) {
+    fs.readdirSync(dir).sort().forEach(entry => {
+        const file = path.join(dir, entry);
+        const stat = fs.statSync(file);
+        if (stat.isDirectory()) {
+            // A trailing slash lets `**/build/**` skip the folder itself
+            if (!matchesGlobs(toSlashes(file) + '/', exclude)) {
+                walk(file, exclude, files);
+            }
+        } else if (stat.isFile() && !matchesGlobs(toSlashes(file), exclude)) {
+            files.push(file);
+        }
+    });
+}
+
+/**
+ * Lists the files named by paths, folders and globs, relative to the current folder.
+ * The files named explicitly are excluded too, hooks such as lint-staged name
+ * every staged file.
+ */
+export function expandFiles(patterns: string[], exclude: string[] = DEFAULT_EXCLUDE): string[] {
+    const files: string[] = [];
+    patterns.forEach(pattern => {
+        if (fs.existsSync(pattern)) {
+            if (fs.statSync(pattern).isDirectory()) {
+                walk(pattern, exclude, files);
+            } else if (!matchesGlobs(toSlashes(pattern), exclude)) {
+                files.push(pattern);
+            }
+            return;
+        }
+        // The folder before the first wildcard is the only one to search
+        const parts = toSlashes(pattern).split('/');
+        const wildcard = parts.findIndex(part => /[*?{]/.test(part));
+        if (wildcard === -1) {
+            throw new Error(`No such file: ${pattern}`);
+        }
+        const base = parts.slice(0, wildcard).join('/') || '.';
+        if (!fs.existsSync(base)) {
+            return;
+        }
+        const regex = globToRegExp(pattern.replace(/^\.\//, ''));
+        const found: string[] = [];
+        walk(base, exclude, found);
+        found
+            .filter(file => regex.test(toSlashes(path.relative('.', file))) || regex.test(toSlashes(file)))
+            .forEach(file => files.push(file));
+    });
+    return Array.from(new Set(files));
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IGrammarExtensions, ITMSyntaxExtensionPoint } from '../syntax/TextMateService';
+
+export interface ILanguageFiles {
+    id: string;
+    // File extensions with their dot, `.ts`
+    extensions: string[];
+    // Whole file names, `Makefile`
+    filenames: string[];
+}
+
+// A language of the `contributes` of an extension
+interface ILanguageContribution {
+    id: string;
+    extensions?: string[];
+    filenames?: string[];
+}
+
+interface IExtensionManifest {
+    contributes?: {
+        grammars?: ITMSyntaxExtensionPoint[];
+        languages?: ILanguageContribution[];
+    };
+}
+
+// The fields of a `*.tmLanguage.json` file read to name its language
+interface IRawGrammar {
+    scopeName?: string;
+    fileTypes?: string[];
+}
+
+export interface IGrammarSet {
+    grammarExtensions: IGrammarExtensions[];
+    languages: ILanguageFiles[];
+}
+
+/**
+ * The folders of the installed VS Code extensions, the built-in ones included
+ */
+export function defaultExtensionDirs(): string[] {
+    const dirs = [path.join(os.homedir(), '.vscode', 'extensions')];
+    switch (process.platform) {
+        case 'darwin':
+            dirs.push('/Applications/Visual Studio Code.app/Contents/Resources/app/extensions');
+            break;
+        case 'win32':
+            if (process.env.LOCALAPPDATA) {
+                dirs.push(path.join(process.env.LOCALAPPDATA, 'Programs', 'Microsoft VS Code', 'resources', 'app', 'extensions'));
+            }
+            break;
+        default:
+            dirs.push('/usr/share/code/resources/app/extensions', '/opt/visual-studio-code/resources/app/extensions', '/snap/code/current/usr/share/code/resources/app/extensions');
+    }
+    return dirs.filter(dir => fs.existsSync(dir));
+}
+
+function readJSON<T>(file: string): T | null {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Loads grammars from an extension folder, a folder of extensions or a folder
+ * of `*.tmLanguage.json` files. The languages of the raw grammars are named
+ * after their scope name and recognized by their `fileTypes`.
+ */
+export function loadGrammars(dirs: string[]): IGrammarSet {
+    const set: IGrammarSet = { grammarExtensions: [], languages: [] };
+    // The ids 0 and 1 are taken by the null and plain text languages
+    let languageId = 2;
+    const addExtension = (extensionLocation: string, grammars: ITMSyntaxExtensionPoint[], languages: ILanguageContribution[]) => {
+        set.grammarExtensions.push({
+            extensionLocation,
+            value: grammars,
+            languages: languages.map(language => ({ id: languageId++, name: language.id }))
+        });
+        languages.forEach(language => set.languages.push({
+            id: language.id,
+            extensions: language.extensions || [],
+            filenames: language.filenames || []
+        }));
+    };
+    const loadExtension = (dir: string) => {
+        const manifest = readJSON<IExtensionManifest>(path.join(dir, 'package.json'));
+        const contributes = manifest && manifest.contributes;
+        if (!contributes || !contributes.grammars) {
+            return false;
+        }
+        addExtension(dir, contributes.grammars, contributes.languages || []);
+        return true;
+    };
+
+    dirs.forEach(dir => {
+        if (loadExtension(dir)) {
+            return;
+        }
+        const rawGrammars: ITMSyntaxExtensionPoint[] = [];
+        const languages: ILanguageContribution[] = [];
+        let entries: string[];
+        try {
+            entries = fs.readdirSync(dir);
+        } catch (e) {
+            throw new Error(`Unable to read the grammars of ${dir}: ${e.message}`);
+        }
+        entries.forEach(entry => {
+            const file = path.join(dir, entry);
+            if (/\.tmLanguage\.json$/i.test(entry)) {
+                const grammar = readJSON<IRawGrammar>(file);
+                if (!grammar || !grammar.scopeName) {
+                    return;
+                }
+                rawGrammars.push(<ITMSyntaxExtensionPoint>{ language: grammar.scopeName, scopeName: grammar.scopeName, path: entry });
+                languages.push({
+                    id: grammar.scopeName,
+                    extensions: (grammar.fileTypes || []).map(type => '.' + type.replace(/^\./, ''))
+                });
+            } else if (fs.statSync(file).isDirectory()) {
+                loadExtension(file);
+            }
+        });
+        if (rawGrammars.length) {
+            addExtension(dir, rawGrammars, languages);
+        }
+    });
+    return set;
+}
+
+/**
+ * Finds the language of a file from its name, then from its longest matching extension
+ */
+export function findLanguage(set: IGrammarSet, file: string): string | undefined {
+    const name = path.basename(file);
+    const lowerName = name.toLowerCase();
+    const byName = set.languages.find(language => language.filenames.indexOf(name) !== -1);
+    if (byName) {
+        return byName.id;
+    }
+    let found: string;
+    let length = 0;
+    set.languages.forEach(language => language.extensions.forEach(extension => {
+        if (extension.length > length && lowerName.endsWith(extension.toLowerCase())) {
+            found = language.id;
+            length = extension.length;
+        }
+    }));
+    return found;
+}
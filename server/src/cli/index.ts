@@ -0,0 +1,347 @@
+#!/usr/bin/env node
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument, TextEdit } from 'vscode-languageserver';
+import { ICommentTranslateSettings } from '../Comment';
+import { CommentParse, ICommentBlock } from '../syntax/CommentParse';
+import { readBlock } from '../syntax/CommentEdit';
+import { resolveScopeRules } from '../syntax/ScopeRules';
+import { TextMateService, IGrammar } from '../syntax/TextMateService';
+import { createTranslator, resolveLanguage } from '../../../translation';
+import { BatchScheduler, translateAll } from '../../../translation/batch';
+import { TranslationCache } from '../../../translation/cache';
+import { emptyGlossary, loadGlossary } from '../../../translation/glossary';
+import { compilePatterns } from '../../../translation/mask';
+import { defaultExclude } from '../../../translation/privacy';
+import { loadGrammars, defaultExtensionDirs, findLanguage } from './grammars';
+import { expandFiles, DEFAULT_EXCLUDE } from './files';
+import { applyEdits, createPatch } from './patch';
+
+const USAGE = `Usage: comment-translate [options] <files, folders or globs...>
+
+Extracts the comments of source files, and optionally translates them.
+
+Options:
+  --grammars <dir>      An extension folder, a folder of extensions or a folder of
+                        *.tmLanguage.json files, repeatable. Defaults to the
+                        installed VS Code extensions
+  --strings             Also extract the string literals
+  --exclude <glob>      Skip the matching files, repeatable
+  --format <json|csv>   The output format, json by default
+  --output <file>       Write to a file instead of the standard output
+  --translate <lang>    Translate to a language name or code
+  --from <lang>         The language of the comments, detected by default
+  --config <file>       A JSON file with the vscodeGoogleTranslate settings
+  --glossary <file>     A glossary file, repeatable
+  --cache <file>        Keep the translations in a cache file between runs
+  --patch               Output a unified diff replacing the comments with their translation
+  --write               Replace the comments with their translation in the files
+  --help                Show this help
+
+The proxy is read from the settings of --config, else from HTTPS_PROXY and NO_PROXY.
+The secrets are redacted and the files of translationExclude are skipped as set in --config.
+
+Exit codes: 0 on success, 1 when a file or a translation failed, 2 on usage errors.`;
+
+interface ICliOptions {
+    files: string[];
+    grammars: string[];
+    strings: boolean;
+    exclude: string[];
+    format: string;
+    output?: string;
+    translate?: string;
+    from?: string;
+    config?: string;
+    glossary: string[];
+    cache?: string;
+    patch: boolean;
+    write: boolean;
+    help: boolean;
+}
+
+// The options taking a value, repeatable or not, and the flags
+type ListOption = 'grammars' | 'exclude' | 'glossary';
+type ValueOption = 'format' | 'output' | 'translate' | 'from' | 'config' | 'cache';
+type FlagOption = 'strings' | 'patch' | 'write' | 'help';
+
+// The settings of --config, the ones of the extension
+type ICliSettings = Partial<ICommentTranslateSettings>;
+
+// A translation of translateAll
+interface IBatchResult {
+    text?: string;
+    from?: string;
+    error?: Error;
+}
+
+interface IRecord {
+    file: string;
+    kind: 'comment' | 'string';
+    // Lines and columns start at 1
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    text: string;
+    translation?: string;
+    error?: string;
+}
+
+class UsageError extends Error { }
+
+function parseArgs(argv: string[]): ICliOptions {
+    const options: ICliOptions = { files: [], grammars: [], strings: false, exclude: [], format: 'json', glossary: [], patch: false, write: false, help: false };
+    const value = (i: number) => {
+        if (i >= argv.length || argv[i].startsWith('--')) {
+            throw new UsageError(`${argv[i - 1]} expects a value`);
+        }
+        return argv[i];
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--grammars':
+            case '--exclude':
+            case '--glossary':
+                options[<ListOption>arg.slice(2)].push(value(++i));
+                break;
+            case '--format':
+            case '--output':
+            case '--translate':
+            case '--from':
+            case '--config':
+            case '--cache':
+                options[<ValueOption>arg.slice(2)] = value(++i);
+                break;
+            case '--strings':
+            case '--patch':
+            case '--write':
+            case '--help':
+                options[<FlagOption>arg.slice(2)] = true;
+                break;
+            default:
+                if (arg.startsWith('--')) {
+                    throw new UsageError(`Unknown option ${arg}`);
+                }
+                options.files.push(arg);
+        }
+    }
+    if (options.help) {
+        return options;
+    }
+    if (!options.files.length) {
+        throw new UsageError('No file given');
+    }
+    if (options.format !== 'json' && options.format !== 'csv') {
+        throw new UsageError(`Unknown format ${options.format}`);
+    }
+    if ((options.patch || options.write) && !options.translate) {
+        throw new UsageError(`${options.patch ? '--patch' : '--write'} requires --translate`);
+    }
+    if (options.patch && options.write) {
+        throw new UsageError('--patch and --write can\'t be used together');
+    }
+    return options;
+}
+
+/**
+ * Reads the settings of a VS Code settings.json or of a file holding only the
+ * `vscodeGoogleTranslate` settings, without their prefix
+ */
+function readSettings(file: string): ICliSettings {
+    let content: string;
+    try {
+        content = fs.readFileSync(file, 'utf8');
+    } catch (e) {
+        throw new UsageError(`Unable to read ${file}: ${e.message}`);
+    }
+    // settings.json may hold comments and trailing commas, strings are kept as they are
+    const json = content
+        .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string || '')
+        .replace(/("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g, (match, string, end) => string || end);
+    let data: { [name: string]: unknown };
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new UsageError(`${file} is not valid JSON: ${e.message}`);
+    }
+    const settings: { [name: string]: unknown } = Object.assign({}, data.vscodeGoogleTranslate);
+    Object.keys(data)
+        .filter(key => key.startsWith('vscodeGoogleTranslate.'))
+        .forEach(key => settings[key.slice('vscodeGoogleTranslate.'.length)] = data[key]);
+    if (!Object.keys(settings).length) {
+        return data;
+    }
+    return settings;
+}
+
+function toCsv(records: IRecord[]): string {
+    const columns: (keyof IRecord)[] = ['file', 'kind', 'line', 'column', 'endLine', 'endColumn', 'text', 'translation', 'error'];
+    const escape = (value: IRecord[keyof IRecord]) => {
+        const text = value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.join(',')]
+        .concat(records.map(record => columns.map(column => escape(record[column])).join(',')))
+        .join('\n') + '\n';
+}
+
+function toSlashes(file: string) {
+    return file.split(path.sep).join('/');
+}
+
+async function main(argv: string[]): Promise<number> {
+    const options = parseArgs(argv);
+    if (options.help) {
+        process.stdout.write(USAGE + '\n');
+        return 0;
+    }
+    const settings = options.config ? readSettings(options.config) : {};
+    let to: string;
+    let from: string;
+    if (options.translate) {
+        to = resolveLanguage(options.translate);
+        if (!to) {
+            throw new UsageError(`Unknown language ${options.translate}`);
+        }
+        from = resolveLanguage(options.from || settings.sourceLanguage);
+    }
+
+    const grammarSet = loadGrammars(options.grammars.length ? options.grammars : defaultExtensionDirs());
+    if (!grammarSet.grammarExtensions.length) {
+        throw new UsageError('No grammar found, use --grammars to name the folder holding them');
+    }
+    const textMateService = new TextMateService(grammarSet.grammarExtensions, '');
+    const grammars = new Map<string, Promise<IGrammar>>();
+    const getGrammar = (languageId: string) => {
+        if (!grammars.has(languageId)) {
+            grammars.set(languageId, textMateService.createGrammar(languageId));
+        }
+        return grammars.get(languageId);
+    };
+
+    const getRules = (languageId: string) => resolveScopeRules(settings.scopeRules, languageId);
+    // The compiled strip patterns by language
+    const markers = new Map<string, RegExp | null>();
+    const getMarkers = (languageId: string) => {
+        if (!markers.has(languageId)) {
+            markers.set(languageId, compilePatterns((settings.commentStripPatterns || []).concat(getRules(languageId).strip)));
+        }
+        return markers.get(languageId);
+    };
+    let failed = false;
+    const records: IRecord[] = [];
+    const documents: { file: string, textDocument: TextDocument, edits: TextEdit[] }[] = [];
+    const writers: ((translation: string) => string)[] = [];
+    // The files whose text is never sent aren't translated
+    const exclude = DEFAULT_EXCLUDE.concat(options.exclude, to ? settings.translationExclude || defaultExclude : []);
+    for (const file of expandFiles(options.files, exclude)) {
+        const languageId = findLanguage(grammarSet, file);
+        if (!languageId) {
+            continue;
+        }
+        const name = toSlashes(path.relative('.', file));
+        let textDocument: TextDocument;
+        let blocks: ICommentBlock[];
+        try {
+            const grammar = await getGrammar(languageId);
+            textDocument = TextDocument.create('file://' + toSlashes(path.resolve(file)), languageId, 0, fs.readFileSync(file, 'utf8'));
+            const commentParse = new CommentParse(textDocument, grammar, !!settings.multiLineMerge, getRules, textMateService.getEmbeddedLanguages(languageId));
+            blocks = commentParse.getCommentBlocks();
+            if (options.strings) {
+                blocks = blocks.concat(commentParse.getStringBlocks())
+                    .sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+            }
+        } catch (e) {
+            console.error(`${name}: ${e.message}`);
+            failed = true;
+            continue;
+        }
+        const document = { file: name, textDocument, edits: <TextEdit[]>[] };
+        documents.push(document);
+        blocks.forEach(block => {
+            const source = readBlock(textDocument, block, getMarkers(block.languageId || languageId));
+            if (!source || !source.text.trim()) {
+                return;
+            }
+            const { start, end } = source.range;
+            const record: IRecord = {
+                file: name,
+                kind: block.literal ? 'string' : 'comment',
+                line: start.line + 1,
+                column: start.character + 1,
+                endLine: end.line + 1,
+                endColumn: end.character + 1,
+                text: source.text
+            };
+            records.push(record);
+            writers.push(translation => {
+                const newText = source.write(translation);
+                if (newText !== textDocument.getText(source.range)) {
+                    document.edits.push(TextEdit.replace(source.range, newText));
+                }
+                return newText;
+            });
+        });
+    }
+
+    if (to) {
+        const scheduler = new BatchScheduler({ concurrency: settings.maxConcurrentRequests, retries: settings.maxRetries });
+        const cache = options.cache ? new TranslationCache(options.cache, settings.cacheSize) : undefined;
+        const glossary = options.glossary.length ? loadGlossary(options.glossary) : emptyGlossary();
+        const translator = createTranslator(settings, { scheduler, cache, glossary });
+        const results = await translateAll(translator, records.map(record => record.text), { from, to });
+        if (cache) {
+            cache.flush();
+        }
+        results.forEach((result: IBatchResult, i: number) => {
+            let error: Error = result.error;
+            if (!error) {
+                records[i].translation = result.text;
+                try {
+                    writers[i](result.text);
+                } catch (e) {
+                    // A raw string can't hold every translation
+                    error = e;
+                }
+            }
+            if (error) {
+                records[i].error = error.message;
+                console.error(`${records[i].file}:${records[i].line}: ${error.message}`);
+                failed = true;
+            }
+        });
+    }
+
+    let output: string;
+    if (options.write) {
+        const changed = documents.filter(document => document.edits.length);
+        changed.forEach(document => fs.writeFileSync(document.file, applyEdits(document.textDocument, document.edits)));
+        console.error(`Translated the comments of ${changed.length} files`);
+    } else if (options.patch) {
+        output = documents.map(document => createPatch(document.file, document.textDocument, document.edits)).join('');
+    } else {
+        output = options.format === 'csv' ? toCsv(records) : JSON.stringify(records, null, 2) + '\n';
+    }
+    if (output !== undefined) {
+        if (options.output) {
+            fs.writeFileSync(options.output, output);
+        } else {
+            process.stdout.write(output);
+        }
+    }
+    return failed ? 1 : 0;
+}
+
+// The grammar service logs to the standard output, which holds the results
+console.log = console.error;
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, e => {
+    console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : e.message);
+    process.exitCode = e instanceof UsageError ? 2 : 1;
+});
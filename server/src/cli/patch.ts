@@ -0,0 +1,129 @@
+import { TextDocument, TextEdit } from 'vscode-languageserver';
+
+/**
+ * Applies edits which don't overlap
+ */
+export function applyEdits(textDocument: TextDocument, edits: TextEdit[]): string {
+    const text = textDocument.getText();
+    const sorted = edits
+        .map(edit => ({ start: textDocument.offsetAt(edit.range.start), end: textDocument.offsetAt(edit.range.end), newText: edit.newText }))
+        .sort((a, b) => a.start - b.start);
+    let result = '';
+    let offset = 0;
+    sorted.forEach(edit => {
+        result += text.slice(offset, edit.start) + edit.newText;
+        offset = edit.end;
+    });
+    return result + text.slice(offset);
+}
+
+function splitLines(text: string): string[] {
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+interface IChange {
+    // The changed lines of the old text, end excluded
+    start: number;
+    end: number;
+    edits: TextEdit[];
+    // The lines replacing them
+    lines: string[];
+}
+
+/**
+ * Writes a unified diff of the edits of a file, readable by `git apply` and `patch -p1`
+ *
+ * @param context How many unchanged lines surround the changes
+ */
+export function createPatch(file: string, textDocument: TextDocument, edits: TextEdit[], context: number = 3): string {
+    const text = textDocument.getText();
+    const oldLines = splitLines(text);
+    const endsWithNewline = text.endsWith('\n');
+    const lineOffsets = oldLines.map((line, i) => textDocument.offsetAt({ line: i, character: 0 }));
+
+    // Turn the edits into whole changed lines, merging those sharing a line
+    const changes: IChange[] = [];
+    edits.slice()
+        .sort((a, b) => textDocument.offsetAt(a.range.start) - textDocument.offsetAt(b.range.start))
+        .forEach(edit => {
+            const start = edit.range.start.line;
+            const end = edit.range.end.line + 1;
+            const last = changes[changes.length - 1];
+            if (last && start < last.end) {
+                last.end = Math.max(last.end, end);
+                last.edits.push(edit);
+            } else {
+                changes.push({ start, end, edits: [edit], lines: [] });
+            }
+        });
+    changes.forEach(change => {
+        const from = lineOffsets[change.start];
+        const to = change.end < oldLines.length ? lineOffsets[change.end] : text.length;
+        let changed = '';
+        let offset = from;
+        change.edits.forEach(edit => {
+            const start = textDocument.offsetAt(edit.range.start);
+            changed += text.slice(offset, start) + edit.newText;
+            offset = textDocument.offsetAt(edit.range.end);
+        });
+        changed += text.slice(offset, to);
+        change.lines = splitLines(changed);
+    });
+
+    const noNewline = '\\ No newline at end of file';
+    const hunks: string[] = [];
+    let index = 0;
+    let shift = 0;
+    while (index < changes.length) {
+        // Changes closer than twice the context share a hunk
+        let lastIndex = index;
+        while (lastIndex + 1 < changes.length && changes[lastIndex + 1].start - changes[lastIndex].end <= context * 2) {
+            lastIndex++;
+        }
+        const hunkStart = Math.max(changes[index].start - context, 0);
+        const hunkEnd = Math.min(changes[lastIndex].end + context, oldLines.length);
+        const body: string[] = [];
+        let newCount = 0;
+        let line = hunkStart;
+        const pushContext = (until: number) => {
+            for (; line < until; line++) {
+                body.push(' ' + oldLines[line]);
+                if (line === oldLines.length - 1 && !endsWithNewline) {
+                    body.push(noNewline);
+                }
+                newCount++;
+            }
+        };
+        for (let i = index; i <= lastIndex; i++) {
+            const change = changes[i];
+            pushContext(change.start);
+            const isLast = change.end >= oldLines.length;
+            for (; line < change.end; line++) {
+                body.push('-' + oldLines[line]);
+            }
+            if (isLast && !endsWithNewline) {
+                body.push(noNewline);
+            }
+            change.lines.forEach(newLine => body.push('+' + newLine));
+            if (isLast && !endsWithNewline && change.lines.length) {
+                body.push(noNewline);
+            }
+            newCount += change.lines.length;
+        }
+        pushContext(hunkEnd);
+        const oldCount = hunkEnd - hunkStart;
+        const newStart = hunkStart + shift;
+        const range = (start: number, count: number) => `${count ? start + 1 : start},${count}`;
+        hunks.push(`@@ -${range(hunkStart, oldCount)} +${range(newStart, newCount)} @@`, ...body);
+        shift += newCount - oldCount;
+        index = lastIndex + 1;
+    }
+    if (!hunks.length) {
+        return '';
+    }
+    return [`--- a/${file}`, `+++ b/${file}`, ...hunks].join('\n') + '\n';
+}
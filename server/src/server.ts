@@ -12,9 +12,12 @@ import {
 	DidChangeConfigurationNotification,
 	Hover,
 	TextDocumentPositionParams,
+	TextDocument,
+	CancellationTokenSource,
 } from 'vscode-languageserver';
 
-import { Comment } from './Comment';
+import { Comment, TRANSLATE_BLOCK_COMMAND } from './Comment';
+import { CommentDiagnostics } from './CommentDiagnostics';
 import { patchAsarRequire } from './util/patch-asar-require';
 import { ShortLive } from './util/short-live';
 
@@ -29,10 +32,12 @@ const documents: TextDocuments = new TextDocuments();
 let hasConfigurationCapability: boolean = false;
 let hasWorkspaceFolderCapability: boolean = false;
 let comment: Comment;
+let commentDiagnostics: CommentDiagnostics;
 
 connection.onInitialize((params: InitializeParams) => {
 	const capabilities = params.capabilities;
 	comment = new Comment(params.initializationOptions, documents, connection);
+	commentDiagnostics = new CommentDiagnostics(comment, documents, connection);
 	patchAsarRequire(params.initializationOptions.appRoot);
 	// Does the client support the `workspace/configuration` request?
 	// If not, we will fall back using global settings
@@ -43,6 +48,10 @@ connection.onInitialize((params: InitializeParams) => {
 		capabilities: {
 			hoverProvider: true,
 			definitionProvider: true,
+			codeActionProvider: true,
+			executeCommandProvider: {
+				commands: [TRANSLATE_BLOCK_COMMAND]
+			},
 			textDocumentSync: documents.syncKind,
 		}
 	};
@@ -62,13 +71,21 @@ connection.onInitialized(async () => {
 		});
 	}
 
-	comment.setSetting(await connection.workspace.getConfiguration('vscodeGoogleTranslate'));
+	await applySettings();
 });
 
 // The settings are pulled from the main JS extension
-connection.onDidChangeConfiguration(async () => {
-	comment.setSetting(await connection.workspace.getConfiguration('vscodeGoogleTranslate'));
-});
+connection.onDidChangeConfiguration(applySettings);
+
+// How long the cursor rests on a token before its translation is requested
+let hoverDelay = 300;
+
+async function applySettings() {
+	const setting = await connection.workspace.getConfiguration('vscodeGoogleTranslate');
+	comment.setSetting(setting);
+	commentDiagnostics.setSetting(setting);
+	hoverDelay = Math.max(Number(setting.hoverDelay) || 0, 0);
+}
 
 const shortLive = new ShortLive((item: TextDocumentPositionParams, data: TextDocumentPositionParams) => {
 	if (item.textDocument.uri === data.textDocument.uri) {
@@ -79,11 +96,52 @@ const shortLive = new ShortLive((item: TextDocumentPositionParams, data: TextDoc
 
 const last: Map<string, Hover> = new Map();
 
-connection.onHover(async (textDocumentPosition) => {
+// The hover being translated, superseded by the next one
+let pendingHover: CancellationTokenSource;
+
+connection.onHover(async (textDocumentPosition, token) => {
 	if (!comment) return null;
-	const hover = await comment.getComment(textDocumentPosition);
-	hover && last.set(textDocumentPosition.textDocument.uri, hover);
-	return hover;
+	if (pendingHover) pendingHover.cancel();
+	const source = pendingHover = new CancellationTokenSource();
+	const cancelled = token.onCancellationRequested(() => source.cancel());
+	try {
+		// Moving the mouse over the code sends a hover per token, only the last one is translated
+		await new Promise(resolve => setTimeout(resolve, hoverDelay));
+		if (source.token.isCancellationRequested) return null;
+		const hover = await comment.getComment(textDocumentPosition, source.token);
+		hover && last.set(textDocumentPosition.textDocument.uri, hover);
+		return source.token.isCancellationRequested ? null : hover;
+	} catch (e) {
+		if (e.cancelled) return null;
+		throw e;
+	} finally {
+		cancelled.dispose();
+		source.dispose();
+		if (pendingHover === source) pendingHover = undefined;
+	}
+});
+
+connection.onCodeAction(async (params) => {
+	if (!comment) return null;
+	return commentDiagnostics.getCodeActions(params).concat(await comment.getCodeActions(params) || []);
+});
+
+connection.onExecuteCommand(async ({ command, arguments: args }) => {
+	if (!comment || command !== TRANSLATE_BLOCK_COMMAND) return;
+	const [uri, position, to, from, options] = args;
+	try {
+		const edit = await comment.getTranslationEdit(uri, position, to, from, options);
+		if (!edit) {
+			connection.window.showInformationMessage('The text is already in the target language.');
+			return;
+		}
+		const { applied } = await connection.workspace.applyEdit(edit);
+		if (!applied) {
+			connection.window.showWarningMessage('The document changed during the translation, try again.');
+		}
+	} catch (e) {
+		connection.window.showErrorMessage(e.message);
+	}
 });
 
 connection.onDefinition(async (definitionParams) => {
@@ -100,6 +158,74 @@ connection.onRequest('translate', (text: string) => {
 	return comment.translate(text);
 });
 
+connection.onRequest('commentBlocks', ({ uri, range }) => {
+	if (!comment) return null;
+	return comment.getCommentBlocks(uri, range);
+});
+
+connection.onRequest('writeComments', ({ uri, blocks, translations }) => {
+	if (!comment) return null;
+	return comment.writeComments(uri, blocks, translations);
+});
+
+connection.onRequest('translatableBlock', ({ uri, position }) => {
+	if (!comment) return null;
+	return comment.getTranslatableBlock(uri, position);
+});
+
+connection.onRequest('stringLiteral', ({ uri, range }) => {
+	if (!comment) return null;
+	return comment.getStringLiteral(uri, range);
+});
+
+// Checks a document of the workspace scan, most of them aren't open
+connection.onRequest('checkCommentLanguage', async ({ uri, languageId, version, text }) => {
+	if (!commentDiagnostics) return 0;
+	const open = documents.get(uri);
+	try {
+		return await commentDiagnostics.check(open || TextDocument.create(uri, languageId, version, text), !!open);
+	} catch (e) {
+		// No grammar for this language
+		return 0;
+	}
+});
+
+// Counts the stale translations of a document of the workspace scan
+connection.onRequest('staleTranslations', async ({ uri, languageId, version, text }) => {
+	if (!comment) return 0;
+	const open = documents.get(uri);
+	try {
+		return (await comment.findStaleTranslations(open || TextDocument.create(uri, languageId, version, text), !!open)).length;
+	} catch (e) {
+		// No grammar for this language
+		return 0;
+	}
+});
+
+// Translates again the stale translations of a document, the extension applies the edits
+connection.onRequest('refreshStaleTranslations', async ({ uri, languageId, version, text, options }) => {
+	if (!comment) return null;
+	const open = documents.get(uri);
+	return comment.getRefreshEdits(open || TextDocument.create(uri, languageId, version, text), options, !!open);
+});
+
+connection.onNotification('glossary', (glossary) => {
+	comment && comment.setGlossary(glossary);
+});
+
+connection.onNotification('translationMemoryFile', (file: string) => {
+	comment && comment.setMemoryFile(file);
+});
+
+connection.onRequest('clearTranslationCache', () => {
+	comment && comment.clearCache();
+	return null;
+});
+
+connection.onShutdown(() => {
+	comment && comment.flushCache();
+});
+
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
@@ -0,0 +1,56 @@
+import * as crypto from "crypto";
+import { ICommentLine, OPENING, getCommentContent } from "./CommentEdit";
+
+// Starts the first line of a translation written under its source: `[en#1a2b3c4d] `
+const TRANSLATION_TAG = /^\[([A-Za-z]{2,3}(?:-[A-Za-z0-9]+)*)#([0-9a-f]{8})\][ \t]?/;
+
+export interface IBilingualComment {
+    // The lines of the source comment, from the first line of the block
+    source: ICommentLine[];
+    sourceText: string;
+    // The lines of the translation, to the last line of the block
+    translation: ICommentLine[];
+    language: string;
+    stale: boolean;
+}
+
+/**
+ * The short hash tagging a translation, the wrapping of the source doesn't change it
+ */
+export function hashSource(text: string): string {
+    return crypto.createHash('sha1').update(text.replace(/\s+/g, ' ').trim()).digest('hex').slice(0, 8);
+}
+
+export function formatTag(language: string, sourceText: string): string {
+    return `[${language}#${hashSource(sourceText)}] `;
+}
+
+/**
+ * Finds a source comment followed by its tagged translation in the lines of a
+ * comment block. Consecutive comments are read as a single block, so the
+ * translation starts at the tagged line, or at the opening line before it.
+ */
+export function findBilingual(lines: ICommentLine[]): IBilingualComment | null {
+    const tagged = lines.findIndex(line => TRANSLATION_TAG.test(line.content));
+    if (tagged <= 0) {
+        return null;
+    }
+    let start = tagged;
+    const previous = lines[tagged - 1];
+    if (!OPENING.test(lines[tagged].prefix) && !previous.content.trim() && OPENING.test(previous.prefix)) {
+        start--;
+    }
+    const source = lines.slice(0, start);
+    const content = getCommentContent(source);
+    if (!content) {
+        return null;
+    }
+    const [, language, hash] = TRANSLATION_TAG.exec(lines[tagged].content);
+    return {
+        source,
+        sourceText: content.text,
+        translation: lines.slice(start),
+        language,
+        stale: hashSource(content.text) !== hash
+    };
+}
@@ -0,0 +1,315 @@
+import { TextDocument, Range } from "vscode-languageserver";
+import { ICommentBlock } from "./CommentParse";
+import { getStringSyntax, decodeStringLiteral, encodeStringLiteral } from "../../../translation/stringLiteral";
+
+export interface ICommentLine {
+    indent: string;
+    // The comment delimiter and the space after it: `// `, `/* `, ` * `, `# `, `-- `
+    prefix: string;
+    content: string;
+    // The closing delimiter and the trailing whitespace: ` */`, ` -->`
+    suffix: string;
+}
+
+const COMMENT_LINE = /^(\s*)((?:\/\*+|\/\/+|#+|--+|;+|%+|<!--|\*(?!\/))?[ \t]?)(.*?)([ \t]*(?:\*+\/|-->))?(\s*)$/;
+
+const CLOSING = /(\*\/|-->)/;
+
+// The opening delimiter of a block comment
+export const OPENING = /^(\/\*+|<!--)/;
+
+const LIST_ITEM = /^([-*+•]|\d+[.)])[ \t]/;
+
+// A list item or a tag such as `@param` starts a new paragraph
+const PARAGRAPH_START = /^([-*+•][ \t]|\d+[.)][ \t]|@\w)/;
+
+const WIDE_CHARACTERS = '\\u1100-\\u115f\\u2e80-\\ua4cf\\uac00-\\ud7a3\\uf900-\\ufaff\\ufe30-\\ufe4f\\uff00-\\uff60\\uffe0-\\uffe6';
+
+const WIDE_CHARACTER = new RegExp(`[${WIDE_CHARACTERS}]`);
+
+// A single wide character, or a run of other characters
+const WRAP_UNIT = new RegExp(`[${WIDE_CHARACTERS}]|[^\\s${WIDE_CHARACTERS}]+`, 'g');
+
+/**
+ * Splits the lines of a comment into delimiters and text
+ *
+ * @param markers The `commentStripPatterns`, their matches at the start or the end
+ * of a line are delimiters too
+ */
+export function parseCommentLines(text: string, markers: RegExp | null = null): ICommentLine[] {
+    return text.split('\n').map(raw => {
+        const line = raw.replace(/\r$/, '');
+        const [, indent, prefix, content, suffix = '', trailing] = COMMENT_LINE.exec(line);
+        const parsed = { indent, prefix, content, suffix: suffix + trailing };
+        if (!markers) {
+            return parsed;
+        }
+        let start = indent.length + prefix.length;
+        let end = line.length - parsed.suffix.length;
+        line.replace(markers, (match: string, ...args: any[]) => {
+            const offset: number = args[args.length - 2];
+            if (match && offset === 0 && match.length > start && match.length <= end) {
+                // Like the delimiters, the marker keeps the space after it
+                start = match.length + (/^[ \t]/.test(line.slice(match.length, end)) ? 1 : 0);
+            } else if (match && offset + match.length === line.length && offset < end && offset >= start) {
+                end = offset - (offset > start && /[ \t]/.test(line.charAt(offset - 1)) ? 1 : 0);
+            }
+            return match;
+        });
+        return {
+            indent: line.slice(0, Math.min(indent.length, start)),
+            prefix: line.slice(Math.min(indent.length, start), start),
+            content: line.slice(start, end),
+            suffix: line.slice(end)
+        };
+    });
+}
+
+/**
+ * Removes the matches of the `commentStripPatterns` from every line of a comment
+ */
+export function stripCommentMarkers(text: string, markers: RegExp | null): string {
+    if (!markers) {
+        return text;
+    }
+    return text.split('\n').map(line => line.replace(markers, '')).join('\n');
+}
+
+function formatLine(line: ICommentLine) {
+    return line.indent + line.prefix + line.content + line.suffix;
+}
+
+/**
+ * The text of a comment without its delimiters. The lines before the first
+ * and after the last line with text, such as a lone `/**`, are left out.
+ */
+export function getCommentContent(lines: ICommentLine[]): { first: number, last: number, text: string } | null {
+    const first = lines.findIndex(line => !!line.content.trim());
+    if (first === -1) {
+        return null;
+    }
+    let last = lines.length - 1;
+    while (!lines[last].content.trim()) {
+        last--;
+    }
+    return {
+        first,
+        last,
+        text: lines.slice(first, last + 1).map(line => line.content).join('\n')
+    };
+}
+
+/**
+ * Writes a translation in place of the text of a comment, keeping its
+ * delimiters and indentation. Lines are added or removed as needed.
+ *
+ * @param indent The indentation of the lines added after the first one,
+ * used when the first line of the comment follows some code
+ */
+export function replaceCommentContent(lines: ICommentLine[], translation: string, indent: string, eol: string = '\n'): string {
+    const content = getCommentContent(lines);
+    if (!content) {
+        return lines.map(formatLine).join(eol);
+    }
+    const { first, last } = content;
+    const translated = translation.split(/\r?\n/);
+    const output = translated.map((text, i) => {
+        const index = Math.min(first + i, last);
+        const template = lines[index];
+        const isLast = i === translated.length - 1;
+        let suffix = template.suffix;
+        if (isLast) {
+            suffix = lines[last].suffix;
+        } else if ((first !== last || OPENING.test(lines[first].prefix)) && (CLOSING.test(suffix) || (index === last && suffix.trim() !== lines[first].suffix.trim()))) {
+            // Only the last line closes a block comment
+            suffix = '';
+        }
+        let prefix = template.prefix;
+        if (i > 0 && index === first && OPENING.test(prefix)) {
+            // The lines added after the opening line of a block comment are continued
+            // with a star under the star of `/**`, or aligned with the first line
+            prefix = /^\/\*\*/.test(prefix) ? ' * ' : ' '.repeat(prefix.length);
+        } else if (text && !template.content && prefix && !/\s$/.test(prefix)) {
+            // The template is a blank line, which has no space after its delimiter
+            prefix += ' ';
+        }
+        const line: ICommentLine = {
+            indent: i > 0 && index === 0 ? indent : template.indent,
+            prefix: text ? prefix : prefix.replace(/\s+$/, ''),
+            content: text,
+            suffix
+        };
+        return formatLine(line);
+    });
+    return lines.slice(0, first).map(formatLine)
+        .concat(output, lines.slice(last + 1).map(formatLine))
+        .join(eol);
+}
+
+/**
+ * The number of columns a text takes, wide characters such as CJK take two
+ */
+export function displayWidth(text: string): number {
+    let width = 0;
+    for (const char of text) {
+        width += WIDE_CHARACTER.test(char) ? 2 : 1;
+    }
+    return width;
+}
+
+function isPreformatted(line: string) {
+    return /^\s/.test(line);
+}
+
+/**
+ * Joins the lines of each paragraph of a comment, so that its sentences are
+ * translated whole. Blank lines, list items and tags start a new paragraph,
+ * indented lines such as code samples are kept as they are.
+ */
+export function joinParagraphs(text: string): string {
+    const paragraphs: string[] = [];
+    let current: string = null;
+    const end = () => {
+        if (current !== null) {
+            paragraphs.push(current);
+        }
+        current = null;
+    };
+    text.split('\n').forEach(line => {
+        // The text of a list item may be indented under its first line
+        const isItemText = current !== null && LIST_ITEM.test(current) && !!line.trim();
+        if (!line.trim() || (isPreformatted(line) && !isItemText)) {
+            end();
+            paragraphs.push(line.replace(/\s+$/, ''));
+        } else if (current === null || PARAGRAPH_START.test(line)) {
+            end();
+            current = line.trim();
+        } else {
+            // Wide characters are written without spaces between them
+            const joint = WIDE_CHARACTER.test(current.slice(-1)) && WIDE_CHARACTER.test(line.trim().charAt(0)) ? '' : ' ';
+            current += joint + line.trim();
+        }
+    });
+    end();
+    return paragraphs.join('\n');
+}
+
+/**
+ * Wraps each line of a text to a width. Wide characters may be wrapped
+ * anywhere, the continuation lines of a list item are indented under its text.
+ */
+export function wrapText(text: string, width: number): string {
+    return text.split('\n').map(paragraph => {
+        if (!paragraph.trim() || isPreformatted(paragraph) || displayWidth(paragraph) <= width) {
+            return paragraph;
+        }
+        const item = LIST_ITEM.exec(paragraph);
+        const hanging = item ? ' '.repeat(item[0].length) : '';
+        const tokens: { text: string, space: boolean }[] = [];
+        paragraph.split(/\s+/).filter(word => !!word).forEach(word => {
+            word.match(WRAP_UNIT).forEach((part, i) => tokens.push({ text: part, space: i === 0 }));
+        });
+        const lines: string[] = [];
+        let line = '';
+        let lineWidth = 0;
+        tokens.forEach(token => {
+            const tokenWidth = displayWidth(token.text);
+            const separator = token.space && line ? 1 : 0;
+            if (line && lineWidth + separator + tokenWidth > width) {
+                lines.push(line);
+                line = hanging + token.text;
+                lineWidth = hanging.length + tokenWidth;
+            } else {
+                line += separator ? ' ' + token.text : token.text;
+                lineWidth += separator + tokenWidth;
+            }
+        });
+        lines.push(line);
+        return lines.join('\n');
+    }).join('\n');
+}
+
+// The prefix and the opening quote of a literal, when its scope includes them
+const LITERAL_OPENING = /^(?:[rRbBuUfF]{1,2}|@\$?|\$@?)?("""|'''|["'`])/;
+
+const LITERAL_CLOSING = /("""|'''|["'`])$/;
+
+// How a string literal is written, see `StringSyntax` in translation/stringLiteral
+export interface IStringSyntax {
+    quote: string;
+    raw: boolean;
+    multiline: boolean;
+    doubled: boolean;
+    json: boolean;
+    interpolation: number;
+    doubledBraces: boolean;
+}
+
+export interface IBlockSource {
+    // The range to replace with `write`, quotes excluded
+    range: Range;
+    // The text to translate, without delimiters and escapes
+    text: string;
+    // What precedes the text on its first line, to know at which column it starts
+    leading: string;
+    // Throws when the literal can't hold the translation
+    write(translation: string): string;
+    // How the string literal is written, for the literals only
+    syntax?: IStringSyntax;
+}
+
+/**
+ * Reads the text to translate of a comment or a string literal,
+ * and how to write its translation back in the document
+ */
+export function readBlock(textDocument: TextDocument, block: ICommentBlock, markers: RegExp | null = null): IBlockSource | null {
+    let range = block.range;
+    let text = textDocument.getText(range);
+    if (block.literal) {
+        const languageId = block.languageId || textDocument.languageId;
+        const lineText = textDocument.getText(Range.create(range.start.line, 0, range.start.line, range.start.character));
+        // Most grammars leave the quotes out of the string scope, the others don't
+        let opening = '';
+        let closing = '';
+        if (!/["'`]$/.test(lineText)) {
+            const match = LITERAL_OPENING.exec(text);
+            if (match) {
+                opening = match[0];
+                if (text.length >= opening.length + match[1].length && text.endsWith(match[1])) {
+                    closing = match[1];
+                }
+            } else {
+                // The last line of a multi-line string
+                const end = LITERAL_CLOSING.exec(text);
+                if (end && (end[1].length === 3 || end[1] === getStringSyntax(languageId, '', block.scope).quote)) {
+                    closing = end[1];
+                }
+            }
+        }
+        range = Range.create(range.start.line, range.start.character + opening.length, range.end.line, range.end.character - closing.length);
+        text = text.slice(opening.length, text.length - closing.length);
+        const leading = lineText + opening;
+        const syntax: IStringSyntax = getStringSyntax(languageId, leading, block.scope);
+        return {
+            range,
+            text: decodeStringLiteral(text, syntax),
+            leading,
+            write: translation => encodeStringLiteral(translation, syntax, text),
+            syntax
+        };
+    }
+    const lines = parseCommentLines(text, markers);
+    const content = getCommentContent(lines);
+    if (!content) return null;
+    const lineText = textDocument.getText(Range.create(range.start.line, 0, range.start.line, range.start.character));
+    // A comment following some code is continued at the same column
+    const indent = /^\s*$/.test(lineText) ? lineText : ' '.repeat(lineText.length);
+    const eol = text.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+    const firstLine = lines[content.first];
+    return {
+        range,
+        text: content.text,
+        leading: (content.first === 0 ? lineText : '') + firstLine.indent + firstLine.prefix,
+        write: translation => replaceCommentContent(lines, translation, indent, eol)
+    };
+}
@@ -1,5 +1,6 @@
 import { TextDocument, Position, Range } from "vscode-languageserver";
-import { IGrammar, StackElement, IToken, IGrammarExtensions } from "./TextMateService";
+import { IGrammar, StackElement, IToken, IGrammarExtensions, IEmbeddedLanguagesMap } from "./TextMateService";
+import { IScopeRules, defaultScopeRules, matchesScope } from "./ScopeRules";
 
 export interface ITokenState {
     startState: StackElement | null;
@@ -11,22 +12,90 @@ export interface ICommentOption {
     appRoot: string;
     grammarExtensions: IGrammarExtensions[];
     userLanguage: string;
+    cacheFile?: string;
+    memoryFile?: string;
 }
 
 export interface ICommentBlock {
     humanize?: boolean;
+    // The block is the content of a string literal, without its quotes
+    literal?: boolean;
     range: Range;
     comment: string;
+    // The language of the block, such as the JavaScript of a Vue file
+    languageId?: string;
+    // The string scope of a literal, such as `string.quoted.raw.go`
+    scope?: string;
+}
+
+function getStringScope(scopes: string[]): string {
+    return scopes.map(scope => unescape(scope)).find(scope => /^string\b/.test(scope));
 }
 
 export type checkScopeFunction = (scopes: string[]) => boolean;
 
+interface ITokenKinds {
+    comment: checkScopeFunction;
+    string: checkScopeFunction;
+    identifier: checkScopeFunction;
+    skip: (scope: string) => boolean;
+}
+
 export class CommentParse {
     private _model: string[];
+    // Token states by line, entries past `_validLines` are left over from before an edit
+    // and are reused once the tokenizer reaches them with the same start state
     private _lines: ITokenState[] = [];
-
-    constructor(textDocument: TextDocument, private _grammar: IGrammar, private _multiLineMerge: boolean = false) {
+    private _validLines: number = 0;
+    private _languageId: string;
+    // The scopes opening an embedded language, the longest first
+    private _embeddedScopes: string[];
+    private _getRules: (languageId: string) => IScopeRules;
+    private _kinds: Map<string, ITokenKinds> = new Map();
+
+    /**
+     * @param rules The scope rules, or the scope rules of each language when the document embeds other languages
+     * @param _embeddedLanguages The language ids by scope name of the languages embedded in the document
+     */
+    constructor(textDocument: TextDocument, private _grammar: IGrammar, private _multiLineMerge: boolean = false, rules: IScopeRules | ((languageId: string) => IScopeRules) = defaultScopeRules, private _embeddedLanguages: IEmbeddedLanguagesMap = {}) {
         this._model = textDocument.getText().split('\n');
+        this._languageId = textDocument.languageId;
+        this._getRules = typeof rules === 'function' ? rules : () => rules;
+        this._embeddedScopes = Object.keys(_embeddedLanguages).sort((a, b) => b.length - a.length);
+    }
+
+    /**
+     * The language of a token, told by its innermost scope opening an embedded language
+     */
+    private _getLanguage(scopes: string[]): string {
+        for (const scope of scopes) {
+            const embedded = this._embeddedScopes.find(prefix => scope === prefix || scope.indexOf(prefix + '.') === 0);
+            if (embedded) {
+                return this._embeddedLanguages[embedded];
+            }
+        }
+        return this._languageId;
+    }
+
+    /**
+     * The checks of the tokens of a language, which don't match the tokens of
+     * another language so that a block never spans two languages
+     */
+    private _getKinds(languageId: string): ITokenKinds {
+        let kinds = this._kinds.get(languageId);
+        if (!kinds) {
+            const rules = this._getRules(languageId);
+            const inLanguage = (scopes: string[]) => !this._embeddedScopes.length || this._getLanguage(scopes) === languageId;
+            kinds = {
+                // A comment token may be nested in other scopes, the other kinds are told by their innermost scope
+                comment: scopes => scopes.some(scope => matchesScope(scope, rules.comment)) && inLanguage(scopes),
+                string: scopes => matchesScope(scopes[0], rules.string) && inLanguage(scopes),
+                identifier: scopes => matchesScope(scopes[0], rules.identifier),
+                skip: scope => matchesScope(scope, rules.skip)
+            };
+            this._kinds.set(languageId, kinds);
+        }
+        return kinds;
     }
 
     private _mergeComment(oldComment: string, newLine: string): string {
@@ -41,21 +110,65 @@ export class CommentParse {
         return oldComment + '\n' + newLine;
     }
 
+    public update(textDocument: TextDocument) {
+        const model = textDocument.getText().split('\n');
+        const oldModel = this._model;
+        this._model = model;
+
+        let start = 0;
+        const minLength = Math.min(model.length, oldModel.length);
+        while (start < minLength && model[start] === oldModel[start]) {
+            start++;
+        }
+        let oldEnd = oldModel.length;
+        let newEnd = model.length;
+        while (oldEnd > start && newEnd > start && model[newEnd - 1] === oldModel[oldEnd - 1]) {
+            oldEnd--;
+            newEnd--;
+        }
+        if (start >= this._lines.length) {
+            return;
+        }
+
+        if (oldEnd > this._lines.length) {
+            // The end of the edit was never tokenized, nothing after it can be kept
+            this._lines.length = start;
+        } else {
+            // Keep the states of the lines after the edit, shifted to their new line numbers
+            const edited: ITokenState[] = new Array(newEnd - start).fill(null);
+            this._lines = this._lines.slice(0, start).concat(edited, this._lines.slice(oldEnd));
+        }
+        this._validLines = Math.min(this._validLines, start);
+    }
+
+    private _isSameState(a: StackElement | null, b: StackElement | null) {
+        if (a === b) {
+            return true;
+        }
+        return !!a && !!b && a.equals(b);
+    }
+
     private _parseTokensToLine(lineNumber: number): ITokenState[] {
         let state: StackElement | null = null;
-        let lineLength = this._lines.length;
-        if (lineLength) {
-            state = this._lines[lineLength - 1].endState;
+        if (this._validLines) {
+            state = this._lines[this._validLines - 1].endState;
         }
-        for (let i = lineLength; i <= lineNumber; i++) {
+        for (let i = this._validLines; i <= lineNumber; i++) {
+            const previous = this._lines[i];
+            if (previous && this._isSameState(previous.startState, state)) {
+                // The line is unchanged and starts in the same state, so are its tokens
+                state = previous.endState;
+                continue;
+            }
             let tokenizationResult = this._grammar.tokenizeLine(this._model[i], state);
-            this._lines.push({
+            this._lines[i] = {
                 startState: state,
                 tokens1: tokenizationResult.tokens,
                 endState: tokenizationResult.ruleStack
-            });
+            };
             state = tokenizationResult.ruleStack;
         }
+        this._validLines = Math.max(this._validLines, lineNumber + 1);
 
         return this._lines;
     }
@@ -161,79 +274,124 @@ export class CommentParse {
 
     }
 
-    public computeText(position: Position): ICommentBlock | null {
-        function isCommentTranslate(scopes: string[]) {
-            let arr = [
-                'punctuation.definition.comment',
-                'comment.block',
-                'comment.line'
-            ];
-
-            return scopes.some(scope => {
-                return arr.some(item => {
-                    return scope.indexOf(item) === 0;
-                });
-            })
-        }
-
-        function skipCommentTranslate(scope: string) {
-            return scope.indexOf('punctuation.whitespace.comment') === 0;
-        }
+    public getCommentBlocks(fromLine: number = 0, toLine: number = this._model.length - 1): ICommentBlock[] {
+        return this._getBlocks('comment', fromLine, toLine);
+    }
 
-        function isStringTranslate(scopes: string[]) {
-            let scope = scopes[0];
-            let arr = [
-                'string.quoted',
-                'constant.character.escape'
-            ];
+    public getStringBlocks(fromLine: number = 0, toLine: number = this._model.length - 1): ICommentBlock[] {
+        const blocks = this._getBlocks('string', fromLine, toLine);
+        blocks.forEach(block => block.literal = true);
+        return blocks;
+    }
 
-            return arr.some(item => {
-                return scope.indexOf(item) === 0;
-            });
+    private _getBlocks(kind: 'comment' | 'string', fromLine: number, toLine: number): ICommentBlock[] {
+        // String literals are read one line at a time
+        const multiLine = kind === 'comment';
+        const blocks: ICommentBlock[] = [];
+        const maxLine = this._model.length - 1;
+        let line = Math.max(fromLine, 0);
+        let character = 0;
+        while (line <= Math.min(toLine, maxLine)) {
+            let data = this._getTokensAtLine(line);
+            let block: ICommentBlock = null;
+            for (let index = 0; index < data.tokens1.length; index++) {
+                if (data.tokens1[index].startIndex < character) {
+                    continue;
+                }
+                let { scopes } = this._parseScopesText(data.tokens1, line, index);
+                const languageId = this._getLanguage(scopes);
+                const kinds = this._getKinds(languageId);
+                const checkContentHandle = kinds[kind];
+                const skipContentHandle = multiLine ? kinds.skip : undefined;
+                if ((skipContentHandle && skipContentHandle(scopes[0])) || !checkContentHandle(scopes)) {
+                    continue;
+                }
+                const minLine = multiLine ? (line === fromLine ? 0 : line) : line;
+                block = this.multiScope({
+                    positionLine: line,
+                    dataTokens1: data.tokens1,
+                    token1Index: index
+                }, checkContentHandle, multiLine ? maxLine : line, minLine, skipContentHandle);
+                block.languageId = languageId;
+                if (kind === 'string') {
+                    block.scope = getStringScope(scopes);
+                }
+                break;
+            }
+            if (block) {
+                blocks.push(block);
+                line = Math.max(block.range.end.line, line);
+                character = block.range.end.character;
+            } else {
+                line += 1;
+                character = 0;
+            }
         }
+        return blocks;
+    }
 
-        function isBaseTranslate(scopes: string[]) {
-            let scope = scopes[0];
-            let arr = [
-                'entity',
-                'variable',
-                'support',
-                'meta.object-literal.key'
-            ];
-
-            return arr.some(item => {
-                return scope.indexOf(item) === 0;
-            });
+    private _getTokenIndex(tokens: IToken[], position: Position) {
+        for (let i = tokens.length - 1; i >= 0; i--) {
+            if (position.character - 1 >= tokens[i].startIndex) {
+                return i;
+            }
         }
+        return 0;
+    }
 
+    /**
+     * The scopes of the token at a position, the innermost first, and the kind
+     * of text the scope rules tell it is
+     */
+    public getScopes(position: Position): { scopes: string[], category: string | null, languageId: string } {
         let data = this._getTokensAtLine(position.line);
-        let token1Index = 0;
-        for (let i = data.tokens1.length - 1; i >= 0; i--) {
-            let t = data.tokens1[i];
-            if (position.character - 1 >= t.startIndex) {
-                token1Index = i;
-                break;
-            }
+        if (!data.tokens1.length) {
+            return { scopes: [], category: null, languageId: this._languageId };
+        }
+        const { scopes } = this._parseScopesText(data.tokens1, position.line, this._getTokenIndex(data.tokens1, position));
+        const languageId = this._getLanguage(scopes);
+        const kinds = this._getKinds(languageId);
+        let category: string = null;
+        if (kinds.string(scopes)) {
+            category = 'string';
+        } else if (kinds.comment(scopes)) {
+            category = kinds.skip(scopes[0]) ? 'skip' : 'comment';
+        } else if (kinds.identifier(scopes)) {
+            category = 'identifier';
         }
+        return { scopes: scopes.map(scope => unescape(scope)), category, languageId };
+    }
+
+    public computeText(position: Position): ICommentBlock | null {
+        let data = this._getTokensAtLine(position.line);
+        let token1Index = this._getTokenIndex(data.tokens1, position);
 
         let { tokenStartIndex, tokenEndIndex, tokenText, scopes } = this._parseScopesText(data.tokens1, position.line, token1Index);
-        if (scopes && isStringTranslate(scopes)) {
-            return this.multiScope({
+        const languageId = this._getLanguage(scopes);
+        const kinds = this._getKinds(languageId);
+        if (scopes && kinds.string(scopes)) {
+            const block: ICommentBlock = this.multiScope({
                 positionLine: position.line,
                 dataTokens1: data.tokens1,
                 token1Index
-            }, isStringTranslate, position.line, position.line);
+            }, kinds.string, position.line, position.line);
+            block.literal = true;
+            block.languageId = languageId;
+            block.scope = getStringScope(scopes);
+            return block;
         }
 
-        if (scopes && isCommentTranslate(scopes)) {
-            return this.multiScope({
+        if (scopes && kinds.comment(scopes)) {
+            const block: ICommentBlock = this.multiScope({
                 positionLine: position.line,
                 dataTokens1: data.tokens1,
                 token1Index
-            }, isCommentTranslate, this._model.length - 1, 0, skipCommentTranslate);
+            }, kinds.comment, this._model.length - 1, 0, kinds.skip);
+            block.languageId = languageId;
+            return block;
         }
 
-        if (scopes && isBaseTranslate(scopes)) {
+        if (scopes && kinds.identifier(scopes)) {
             let range = Range.create({
                 line: position.line,
                 character: tokenStartIndex
@@ -245,7 +403,8 @@ export class CommentParse {
             return {
                 humanize: true,
                 comment: tokenText,
-                range: range
+                range: range,
+                languageId
             }
         }
 
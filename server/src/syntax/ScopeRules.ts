@@ -0,0 +1,92 @@
+// The kinds of tokens the hover translates, `skip` lists the tokens ignored inside a comment
+export type ScopeCategory = 'comment' | 'string' | 'identifier' | 'skip';
+
+export interface IScopeRules {
+    comment: string[];
+    string: string[];
+    identifier: string[];
+    skip: string[];
+    // The comment markers left out of the translations, added to the `commentStripPatterns`
+    strip: string[];
+}
+
+export interface IScopeListSetting {
+    add?: string[];
+    remove?: string[];
+    // False turns the category off
+    enabled?: boolean;
+}
+
+export type ILanguageScopeRulesSetting = { [category in ScopeCategory]?: IScopeListSetting } & { strip?: string[] };
+
+// The `scopeRules` setting, by language id, `*` applying to every language
+export interface IScopeRulesSetting {
+    [languageId: string]: ILanguageScopeRulesSetting;
+}
+
+export const defaultScopeRules: IScopeRules = {
+    comment: [
+        'punctuation.definition.comment',
+        'comment.block',
+        'comment.line'
+    ],
+    string: [
+        'string.quoted',
+        'constant.character.escape'
+    ],
+    identifier: [
+        'entity',
+        'variable',
+        'support',
+        'meta.object-literal.key'
+    ],
+    skip: [
+        'punctuation.whitespace.comment'
+    ],
+    strip: []
+};
+
+const categories: ScopeCategory[] = ['comment', 'string', 'identifier', 'skip'];
+
+/**
+ * Applies the `*` rules then the rules of a language to the default scope prefixes
+ */
+export function resolveScopeRules(setting: IScopeRulesSetting | undefined, languageId: string): IScopeRules {
+    const rules: IScopeRules = {
+        comment: defaultScopeRules.comment.slice(),
+        string: defaultScopeRules.string.slice(),
+        identifier: defaultScopeRules.identifier.slice(),
+        skip: defaultScopeRules.skip.slice(),
+        strip: []
+    };
+    const disabled: { [category: string]: boolean } = {};
+    [setting && setting['*'], setting && setting[languageId]].forEach(languageRules => {
+        if (!languageRules) {
+            return;
+        }
+        rules.strip = rules.strip.concat(languageRules.strip || []);
+        categories.forEach(category => {
+            const list = languageRules[category];
+            if (!list) {
+                return;
+            }
+            const remove = list.remove || [];
+            rules[category] = rules[category]
+                .filter(prefix => remove.indexOf(prefix) === -1)
+                .concat((list.add || []).filter(prefix => rules[category].indexOf(prefix) === -1));
+            if (typeof list.enabled === 'boolean') {
+                // The language rules can turn on again what `*` turns off
+                disabled[category] = !list.enabled;
+            }
+        });
+    });
+    categories.filter(category => disabled[category]).forEach(category => rules[category] = []);
+    return rules;
+}
+
+/**
+ * Tells whether a scope starts with one of the prefixes
+ */
+export function matchesScope(scope: string, prefixes: string[]): boolean {
+    return prefixes.some(prefix => scope.indexOf(prefix) === 0);
+}
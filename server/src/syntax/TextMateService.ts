@@ -364,6 +364,30 @@ export class TextMateService implements ITextMateService {
         return result;
     }
 
+    /**
+     * The language ids of the scopes opening another language in the documents
+     * of a language: the embedded languages of its grammar and of the grammars
+     * injected into it, and the top level scopes of every grammar, which the
+     * grammars including another grammar use, such as `source.js` in Vue files
+     */
+    public getEmbeddedLanguages(modeId: string): IEmbeddedLanguagesMap {
+        const embeddedLanguages: IEmbeddedLanguagesMap = Object.create(null);
+        this._languageToScope.forEach((scopeName, language) => {
+            if (!embeddedLanguages[scopeName]) {
+                embeddedLanguages[scopeName] = language;
+            }
+        });
+        const scopeName = this._languageToScope.get(modeId);
+        const registration = this._scopeRegistry.getLanguageRegistration(scopeName);
+        [registration && registration.embeddedLanguages].concat(this._injectedEmbeddedLanguages[scopeName] || []).forEach(map => {
+            Object.keys(map || {}).forEach(scope => embeddedLanguages[scope] = map[scope]);
+        });
+        if (scopeName) {
+            embeddedLanguages[scopeName] = modeId;
+        }
+        return embeddedLanguages;
+    }
+
     public async createGrammar(modeId: string): Promise<IGrammar> {
         const r = await this._createGrammar(modeId);
         return r.grammar;
@@ -0,0 +1,170 @@
+/* global suite, test */
+const assert = require("assert");
+const { BatchScheduler, CancelledError, Priority, splitText, translateAll, withBatching } = require("../translation/batch");
+
+/**
+ * A provider recording its requests, translating to upper case
+ */
+function createProvider(limits, fail = () => null) {
+    const requests = [];
+    const translate = async (text) => {
+        requests.push([text]);
+        const error = fail(text, requests.length);
+        if (error) {
+            throw error;
+        }
+        return { text: text.toUpperCase(), from: "en" };
+    };
+    return {
+        id: "fake",
+        limits,
+        requests,
+        translate,
+        async translateMany(texts) {
+            requests.push(texts);
+            const error = fail(texts.join(), requests.length);
+            if (error) {
+                throw error;
+            }
+            return texts.map((text) => ({ text: text.toUpperCase(), from: "en" }));
+        }
+    };
+}
+
+function httpError(statusCode) {
+    const error = new Error(`HTTP ${statusCode}`);
+    error.statusCode = statusCode;
+    return error;
+}
+
+suite("Batching", function() {
+    suite("splitText", function() {
+        test("keeps a short text whole", function() {
+            assert.deepEqual(splitText("Hello world", 20), [{ text: "Hello world", separator: "" }]);
+        });
+
+        test("splits at paragraphs before sentences", function() {
+            const text = "First sentence. Second one.\n\nNext paragraph here.";
+            const chunks = splitText(text, 40);
+            assert.deepEqual(chunks, [
+                { text: "First sentence. Second one.", separator: "\n\n" },
+                { text: "Next paragraph here.", separator: "" }
+            ]);
+        });
+
+        test("splits at sentences, then words", function() {
+            assert.deepEqual(splitText("One two. Three four five six.", 16).map((chunk) => chunk.text), [
+                "One two.",
+                "Three four five",
+                "six."
+            ]);
+        });
+
+        test("never returns a chunk over the limit and joins back to the text", function() {
+            const text = "word ".repeat(300) + "end";
+            const chunks = splitText(text, 100);
+            chunks.forEach((chunk) => assert.ok(chunk.text.length + chunk.separator.length <= 100));
+            assert.equal(chunks.map((chunk) => chunk.text + chunk.separator).join(""), text);
+        });
+
+        test("cuts a text without boundaries at the limit", function() {
+            const chunks = splitText("x".repeat(25), 10);
+            assert.deepEqual(chunks.map((chunk) => chunk.text.length), [10, 10, 5]);
+        });
+    });
+
+    suite("BatchScheduler", function() {
+        test("packs the texts of a tick up to the segment limit", async function() {
+            const scheduler = new BatchScheduler();
+            const provider = createProvider({ maxChars: 1000, maxSegments: 2 });
+            const results = await Promise.all(["a", "b", "c"].map((text) =>
+                scheduler.translate(provider, text, { to: "fr" })
+            ));
+            assert.deepEqual(provider.requests, [["a", "b"], ["c"]]);
+            assert.deepEqual(results.map((res) => res.text), ["A", "B", "C"]);
+        });
+
+        test("packs the texts up to the character limit", async function() {
+            const scheduler = new BatchScheduler();
+            const provider = createProvider({ maxChars: 10, maxSegments: 10 });
+            await Promise.all(["aaaa", "bbbb", "cccc"].map((text) =>
+                scheduler.translate(provider, text, { to: "fr" })
+            ));
+            assert.deepEqual(provider.requests, [["aaaa", "bbbb"], ["cccc"]]);
+        });
+
+        test("doesn't pack the texts of different languages", async function() {
+            const scheduler = new BatchScheduler();
+            const provider = createProvider({ maxChars: 1000, maxSegments: 10 });
+            await Promise.all([
+                scheduler.translate(provider, "a", { to: "fr" }),
+                scheduler.translate(provider, "b", { to: "de" })
+            ]);
+            assert.deepEqual(provider.requests, [["a"], ["b"]]);
+        });
+
+        test("splits a long text and joins its translations", async function() {
+            const scheduler = new BatchScheduler();
+            const provider = createProvider({ maxChars: 12, maxSegments: 1 });
+            const res = await scheduler.translate(provider, "One two.\n\nThree four.", { to: "fr" });
+            assert.deepEqual(provider.requests, [["One two."], ["Three four."]]);
+            assert.equal(res.text, "ONE TWO.\n\nTHREE FOUR.");
+        });
+
+        test("retries the requests refused with 429 and 5xx", async function() {
+            const scheduler = new BatchScheduler({ retries: 3, baseDelay: 1 });
+            const provider = createProvider({}, (text, count) => (count < 3 ? httpError(count === 1 ? 429 : 503) : null));
+            const res = await scheduler.translate(provider, "hello", { to: "fr" });
+            assert.equal(res.text, "HELLO");
+            assert.equal(provider.requests.length, 3);
+        });
+
+        test("gives up after the retries", async function() {
+            const scheduler = new BatchScheduler({ retries: 2, baseDelay: 1 });
+            const provider = createProvider({}, () => httpError(500));
+            await assert.rejects(scheduler.translate(provider, "hello", { to: "fr" }), /HTTP 500/);
+            assert.equal(provider.requests.length, 3);
+        });
+
+        test("doesn't retry the other errors", async function() {
+            const scheduler = new BatchScheduler({ retries: 3, baseDelay: 1 });
+            const provider = createProvider({}, () => httpError(403));
+            await assert.rejects(scheduler.translate(provider, "hello", { to: "fr" }), /HTTP 403/);
+            assert.equal(provider.requests.length, 1);
+        });
+
+        test("sends the texts of a failed batch one by one", async function() {
+            const scheduler = new BatchScheduler({ retries: 0 });
+            const provider = createProvider({ maxChars: 1000, maxSegments: 10 }, (text) =>
+                text.indexOf("bad") !== -1 ? httpError(400) : null
+            );
+            const results = await translateAll(withBatching(provider, scheduler), ["good", "bad", "fine"], { to: "fr" });
+            assert.deepEqual(provider.requests, [["good", "bad", "fine"], ["good"], ["bad"], ["fine"]]);
+            assert.equal(results[0].text, "GOOD");
+            assert.ok(results[1].error);
+            assert.equal(results[2].text, "FINE");
+        });
+
+        test("sends the waiting requests by priority", async function() {
+            const scheduler = new BatchScheduler({ concurrency: 1 });
+            const order = [];
+            const request = (name) => async () => {
+                order.push(name);
+            };
+            await Promise.all([
+                scheduler.run(request("first"), { priority: Priority.normal }),
+                scheduler.run(request("background"), { priority: Priority.background }),
+                scheduler.run(request("hover"), { priority: Priority.interactive })
+            ]);
+            assert.deepEqual(order, ["first", "hover", "background"]);
+        });
+
+        test("drops the requests cancelled before they are sent", async function() {
+            const scheduler = new BatchScheduler();
+            await assert.rejects(
+                scheduler.run(() => assert.fail("sent"), { token: { isCancellationRequested: true } }),
+                (e) => e instanceof CancelledError
+            );
+        });
+    });
+});
@@ -0,0 +1,52 @@
+/* global suite, test */
+const assert = require("assert");
+// The server is compiled to server/out when the extension is installed
+const { findBilingual, formatTag, hashSource } = require("../server/out/syntax/Bilingual");
+const { parseCommentLines } = require("../server/out/syntax/CommentEdit");
+
+function find(text) {
+    return findBilingual(parseCommentLines(text));
+}
+
+suite("Bilingual comments", function() {
+    test("tags a translation with the language and the hash of its source", function() {
+        assert.ok(/^\[fr#[0-9a-f]{8}\] $/.test(formatTag("fr", "Open the file")));
+        assert.equal(formatTag("pt-BR", "Open").slice(0, 7), "[pt-BR#");
+    });
+
+    test("hashes the source whatever its wrapping", function() {
+        assert.equal(hashSource("Open the\n   file "), hashSource("Open the file"));
+        assert.notEqual(hashSource("Open the file"), hashSource("Open the files"));
+    });
+
+    test("finds the translation under its source", function() {
+        const tag = formatTag("fr", "Open the\nfile");
+        const bilingual = find(`// Open the\n// file\n// ${tag}Ouvrir le fichier`);
+        assert.equal(bilingual.sourceText, "Open the\nfile");
+        assert.equal(bilingual.language, "fr");
+        assert.equal(bilingual.stale, false);
+        assert.equal(bilingual.source.length, 2);
+        assert.deepEqual(bilingual.translation.map((line) => line.content), [`${tag}Ouvrir le fichier`]);
+    });
+
+    test("tells a translation whose source changed since", function() {
+        const tag = formatTag("fr", "Open the file");
+        assert.equal(find(`// Open the files\n// ${tag}Ouvrir le fichier`).stale, true);
+        assert.equal(find(`// Open the\n//   file\n// ${tag}Ouvrir le fichier`).stale, false);
+    });
+
+    test("starts a translation in its own block comment at its opening line", function() {
+        const tag = formatTag("de", "Reads the file");
+        const bilingual = find(`/**\n * Reads the file\n */\n/*\n * ${tag}Liest die Datei\n */`);
+        assert.equal(bilingual.sourceText, "Reads the file");
+        assert.equal(bilingual.source.length, 3);
+        assert.equal(bilingual.translation[0].prefix, "/*");
+        assert.equal(bilingual.stale, false);
+    });
+
+    test("finds nothing without a tagged translation or a source", function() {
+        assert.equal(find("// Open the file\n// Ouvrir le fichier"), null);
+        assert.equal(find(`// ${formatTag("fr", "Open")}Ouvrir`), null);
+        assert.equal(find(`//\n// ${formatTag("fr", "Open")}Ouvrir`), null);
+    });
+});
@@ -0,0 +1,162 @@
+/* global suite, test, setup, teardown */
+const assert = require("assert");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { TranslationCache, withCache } = require("../translation/cache");
+const { withPrivacy } = require("../translation/privacy");
+const { createProvider } = require("../translation/providers");
+
+suite("Translation cache", function() {
+    let dir;
+
+    setup(function() {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "translation-cache-"));
+    });
+
+    teardown(function() {
+        fs.readdirSync(dir).forEach((file) => fs.unlinkSync(path.join(dir, file)));
+        fs.rmdirSync(dir);
+    });
+
+    test("addresses the translations by text, languages and provider", function() {
+        const key = TranslationCache.key("Hello", "en", "fr", "google");
+        assert.equal(key, TranslationCache.key("Hello", "en", "fr", "google"));
+        assert.notEqual(key, TranslationCache.key("Hello", "en", "fr", "deepl"));
+        assert.notEqual(key, TranslationCache.key("Hello", undefined, "fr", "google"));
+        assert.equal(TranslationCache.key("Hello", undefined, "fr", "google"), TranslationCache.key("Hello", "auto", "fr", "google"));
+    });
+
+    test("evicts the least recently used entries", function() {
+        const cache = new TranslationCache(undefined, 2);
+        cache.set("a", { text: "A" });
+        cache.set("b", { text: "B" });
+        assert.deepEqual(cache.get("a"), { text: "A" });
+        cache.set("c", { text: "C" });
+        assert.equal(cache.size, 2);
+        assert.equal(cache.get("b"), undefined);
+        assert.deepEqual(cache.get("a"), { text: "A" });
+        assert.deepEqual(cache.get("c"), { text: "C" });
+    });
+
+    test("keeps nothing with no room", function() {
+        const cache = new TranslationCache(undefined, 0);
+        cache.set("a", { text: "A" });
+        assert.equal(cache.get("a"), undefined);
+    });
+
+    test("runs the factory once for the same key at the same time", async function() {
+        const cache = new TranslationCache();
+        let calls = 0;
+        const factory = () => {
+            calls++;
+            return new Promise((resolve) => setTimeout(() => resolve({ text: "Bonjour" }), 5));
+        };
+        const results = await Promise.all([cache.getOrCreate("k", factory), cache.getOrCreate("k", factory)]);
+        assert.equal(calls, 1);
+        assert.deepEqual(results, [{ text: "Bonjour" }, { text: "Bonjour" }]);
+        assert.deepEqual(await cache.getOrCreate("k", factory), { text: "Bonjour" });
+        assert.equal(calls, 1);
+    });
+
+    test("doesn't keep the failures", async function() {
+        const cache = new TranslationCache();
+        await assert.rejects(cache.getOrCreate("k", () => Promise.reject(new Error("Offline"))), /Offline/);
+        assert.deepEqual(await cache.getOrCreate("k", async () => ({ text: "Bonjour" })), { text: "Bonjour" });
+    });
+
+    test("persists the entries and merges the ones of another process", function() {
+        const file = path.join(dir, "cache.json");
+        const extension = new TranslationCache(file, 3);
+        const server = new TranslationCache(file, 3);
+        extension.set("a", { text: "A" });
+        extension.flush();
+        server.set("b", { text: "B" });
+        server.flush();
+
+        const reopened = new TranslationCache(file, 3);
+        assert.deepEqual(reopened.get("a"), { text: "A" });
+        assert.deepEqual(reopened.get("b"), { text: "B" });
+        assert.equal(fs.readdirSync(dir).length, 1);
+    });
+
+    test("evicts the oldest entries of the merged file", function() {
+        const file = path.join(dir, "cache.json");
+        const first = new TranslationCache(file, 2);
+        first.set("a", { text: "A" });
+        first.flush();
+        const second = new TranslationCache(file, 2);
+        second._entries.get("a").time = 0;
+        second.set("b", { text: "B" });
+        second.set("c", { text: "C" });
+        second.flush();
+        const reopened = new TranslationCache(file, 2);
+        assert.equal(reopened.get("a"), undefined);
+        assert.equal(reopened.size, 2);
+    });
+
+    test("starts over from a corrupted file and clears the file", function() {
+        const file = path.join(dir, "cache.json");
+        fs.writeFileSync(file, "{not json");
+        const cache = new TranslationCache(file);
+        assert.equal(cache.size, 0);
+        cache.set("a", { text: "A" });
+        cache.flush();
+        cache.clear();
+        assert.equal(cache.size, 0);
+        assert.equal(fs.existsSync(file), false);
+    });
+
+    test("withCache answers the same translations and detections from the cache", async function() {
+        const calls = [];
+        const provider = withCache({
+            id: "fake",
+            translate: async (text, options) => {
+                calls.push(["translate", text, options.to]);
+                return { text: `[${options.to}] ${text}`, from: "en" };
+            },
+            detect: async (text) => {
+                calls.push(["detect", text]);
+                return "en";
+            }
+        }, new TranslationCache());
+        assert.deepEqual(await provider.translate("Hi", { to: "fr" }), { text: "[fr] Hi", from: "en" });
+        await provider.translate("Hi", { to: "fr" });
+        await provider.translate("Hi", { to: "de" });
+        assert.equal(await provider.detect("Hi"), "en");
+        assert.equal(await provider.detect("Hi"), "en");
+        assert.deepEqual(calls, [["translate", "Hi", "fr"], ["translate", "Hi", "de"], ["detect", "Hi"]]);
+    });
+
+    test("keeps apart the translations of the same provider on another server", async function() {
+        const cache = new TranslationCache();
+        const translate = (server) => {
+            // The settings of a server, without going to it
+            const provider = createProvider({ provider: "libretranslate", libreTranslateUrl: server });
+            provider.translate = async (text) => ({ text: `${server}: ${text}`, from: "en" });
+            return withCache(provider, cache).translate("Hi", { to: "fr" });
+        };
+        assert.equal((await translate("https://one.example")).text, "https://one.example: Hi");
+        assert.equal((await translate("https://two.example/")).text, "https://two.example/: Hi");
+        assert.equal((await translate("https://one.example/")).text, "https://one.example: Hi");
+    });
+
+    test("doesn't keep the translations of the texts with secrets", async function() {
+        const cache = new TranslationCache();
+        const sent = [];
+        const provider = withCache(withPrivacy({
+            id: "fake",
+            name: "Fake",
+            translate: async (text) => {
+                sent.push(text);
+                return { text, from: "en" };
+            }
+        }, {}), cache);
+        assert.equal((await provider.translate("Write to me@example.com", { to: "fr" })).text, "Write to me@example.com");
+        await provider.translate("Write to me@example.com", { to: "fr" });
+        await provider.translate("Hi", { to: "fr" });
+        await provider.translate("Hi", { to: "fr" });
+        assert.equal(sent.length, 3);
+        assert.equal(cache.size, 1);
+    });
+});
@@ -0,0 +1,68 @@
+/* global suite, test, setup, teardown */
+const assert = require("assert");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+// The server is compiled to server/out when the extension is installed
+const { expandFiles } = require("../server/out/cli/files");
+
+suite("Command-line files", function() {
+    const cwd = process.cwd();
+    let dir;
+
+    function write(file) {
+        const full = path.join(dir, file);
+        fs.mkdirSync(path.dirname(full), { recursive: true });
+        fs.writeFileSync(full, "// Comment\n");
+    }
+
+    function remove(folder) {
+        fs.readdirSync(folder).forEach((entry) => {
+            const full = path.join(folder, entry);
+            if (fs.statSync(full).isDirectory()) {
+                remove(full);
+            } else {
+                fs.unlinkSync(full);
+            }
+        });
+        fs.rmdirSync(folder);
+    }
+
+    setup(function() {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-files-"));
+        ["src/a.ts", "src/b.js", "src/lib/c.ts", "node_modules/dep/index.ts", "build/out.ts"].forEach(write);
+        process.chdir(dir);
+    });
+
+    teardown(function() {
+        process.chdir(cwd);
+        remove(dir);
+    });
+
+    test("walks the folders in order, without the excluded ones", function() {
+        assert.deepEqual(expandFiles(["."]).map((file) => file.split(path.sep).join("/")), [
+            "build/out.ts",
+            "src/a.ts",
+            "src/b.js",
+            "src/lib/c.ts"
+        ]);
+        assert.deepEqual(expandFiles(["src"], ["**/lib/**"]).map((file) => file.split(path.sep).join("/")), ["src/a.ts", "src/b.js"]);
+    });
+
+    test("expands the globs from the folder before the first wildcard", function() {
+        assert.deepEqual(expandFiles(["src/**/*.ts"]).map((file) => file.split(path.sep).join("/")), ["src/a.ts", "src/lib/c.ts"]);
+        assert.deepEqual(expandFiles(["**/*.ts"], ["**/node_modules/**", "**/build/**"]).map((file) => file.split(path.sep).join("/")), [
+            "src/a.ts",
+            "src/lib/c.ts"
+        ]);
+        assert.deepEqual(expandFiles(["missing/**/*.ts"]), []);
+    });
+
+    test("lists each file once", function() {
+        assert.deepEqual(expandFiles(["src/a.ts", "src/*.ts"]).map((file) => file.split(path.sep).join("/")), ["src/a.ts"]);
+    });
+
+    test("fails on a missing file", function() {
+        assert.throws(() => expandFiles(["src/missing.ts"]), /No such file: src\/missing.ts/);
+    });
+});
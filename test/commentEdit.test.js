@@ -0,0 +1,59 @@
+/* global suite, test */
+const assert = require("assert");
+// The server is compiled to server/out when the extension is installed
+const {
+    displayWidth,
+    getCommentContent,
+    joinParagraphs,
+    parseCommentLines,
+    replaceCommentContent,
+    wrapText
+} = require("../server/out/syntax/CommentEdit");
+
+function replace(comment, translation, indent = "") {
+    return replaceCommentContent(parseCommentLines(comment), translation, indent);
+}
+
+suite("Comment edits", function() {
+    test("splits the lines into delimiters and text", function() {
+        assert.deepEqual(parseCommentLines("    /** Reads */"), [{ indent: "    ", prefix: "/** ", content: "Reads", suffix: " */" }]);
+        assert.deepEqual(parseCommentLines("  * @param path"), [{ indent: "  ", prefix: "* ", content: "@param path", suffix: "" }]);
+        assert.deepEqual(parseCommentLines("# Python"), [{ indent: "", prefix: "# ", content: "Python", suffix: "" }]);
+    });
+
+    test("reads the text without the lone delimiters", function() {
+        const content = getCommentContent(parseCommentLines("/**\n * First\n * second\n */"));
+        assert.deepEqual(content, { first: 1, last: 2, text: "First\nsecond" });
+        assert.equal(getCommentContent(parseCommentLines("//\n//")), null);
+    });
+
+    test("joins the paragraphs, not the lists and the code", function() {
+        assert.equal(joinParagraphs("Reads the\nfile.\n\n- one\n  more\n- two"), "Reads the file.\n\n- one more\n- two");
+        assert.equal(joinParagraphs("For example:\n    code(\n    arg)"), "For example:\n    code(\n    arg)");
+        assert.equal(joinParagraphs("@param a the\nvalue\n@returns b"), "@param a the value\n@returns b");
+        assert.equal(joinParagraphs("日本\n語"), "日本語");
+    });
+
+    test("wraps to the width, with the wide characters taking two columns", function() {
+        assert.equal(displayWidth("日本a"), 5);
+        assert.equal(wrapText("one two three four", 9), "one two\nthree\nfour");
+        assert.equal(wrapText("- an item that wraps", 10), "- an item\n  that\n  wraps");
+        assert.equal(wrapText("日本語日本語", 6), "日本語\n日本語");
+        assert.equal(wrapText("    long preformatted code line", 10), "    long preformatted code line");
+    });
+
+    test("rebuilds line comments", function() {
+        assert.equal(replace("  // One\n  // two", "Un\ndeux\ntrois", "  "), "  // Un\n  // deux\n  // trois");
+        assert.equal(replace("# One\n# two\n# three", "Un"), "# Un");
+    });
+
+    test("rebuilds block comments with their stars", function() {
+        assert.equal(replace("/**\n * One\n */", "Un\ndeux"), "/**\n * Un\n * deux\n */");
+        assert.equal(replace("/** One */", "Un\ndeux"), "/** Un\n * deux */");
+        assert.equal(replace("/* One\n   two */", "Un"), "/* Un */");
+    });
+
+    test("keeps the blank lines of the translation without trailing spaces", function() {
+        assert.equal(replace("// One", "Un\n\ndeux"), "// Un\n//\n// deux");
+    });
+});
@@ -0,0 +1,101 @@
+/* global suite, test, setup, teardown */
+const assert = require("assert");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { emptyGlossary, loadGlossary, withGlossary } = require("../translation/glossary");
+
+const glossary = {
+    doNotTranslate: ["Acme", "Acme Cloud"],
+    terms: {
+        checkout: { fr: "paiement", de: "Kasse" },
+        "pull request": { fr: "demande de tirage", "pt-BR": "solicitação de pull" },
+        cart: { pt: "carrinho" }
+    }
+};
+
+/**
+ * A provider that shows what it was sent
+ */
+function createProvider(sent = []) {
+    return {
+        id: "fake",
+        translate: async (text, options) => {
+            sent.push(text);
+            return { text: `[${options.to}] ${text}`, from: "en" };
+        }
+    };
+}
+
+suite("Glossary", function() {
+    suite("loadGlossary", function() {
+        let dir;
+
+        setup(function() {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "glossary-"));
+        });
+
+        teardown(function() {
+            fs.readdirSync(dir).forEach((file) => fs.unlinkSync(path.join(dir, file)));
+            fs.rmdirSync(dir);
+        });
+
+        test("merges the files and skips the missing ones", function() {
+            const user = path.join(dir, "user.json");
+            const workspace = path.join(dir, "workspace.json");
+            fs.writeFileSync(user, JSON.stringify({ doNotTranslate: ["Acme", ""], terms: { checkout: { fr: "caisse", de: "Kasse" } } }));
+            fs.writeFileSync(workspace, JSON.stringify({ doNotTranslate: ["Widget"], terms: { checkout: { fr: "paiement" } } }));
+            assert.deepEqual(loadGlossary([user, path.join(dir, "missing.json"), workspace]), {
+                doNotTranslate: ["Acme", "Widget"],
+                terms: { checkout: { fr: "paiement", de: "Kasse" } }
+            });
+        });
+
+        test("names the invalid file", function() {
+            const file = path.join(dir, "broken.json");
+            fs.writeFileSync(file, "{");
+            assert.throws(() => loadGlossary([file]), (e) => e.message.indexOf(file) !== -1);
+        });
+    });
+
+    suite("withGlossary", function() {
+        test("keeps the terms not to translate", async function() {
+            const sent = [];
+            const res = await withGlossary(createProvider(sent), glossary).translate("Deploy Acme Cloud and Acme", { to: "fr" });
+            assert.deepEqual(sent, ["Deploy ⟦0⟧ and ⟦1⟧"]);
+            assert.equal(res.text, "[fr] Deploy Acme Cloud and Acme");
+            assert.deepEqual(res.glossary, ["Acme Cloud", "Acme"]);
+        });
+
+        test("writes the fixed translation of the target language", async function() {
+            const res = await withGlossary(createProvider(), glossary).translate("Open the Checkout page", { to: "fr" });
+            assert.equal(res.text, "[fr] Open the paiement page");
+            assert.deepEqual(res.glossary, ["Checkout → paiement"]);
+        });
+
+        test("matches the whole words only", async function() {
+            const sent = [];
+            await withGlossary(createProvider(sent), glossary).translate("Acmes and checkouts", { to: "fr" });
+            assert.deepEqual(sent, ["Acmes and checkouts"]);
+        });
+
+        test("falls back from a regional variant to its language", async function() {
+            const provider = withGlossary(createProvider(), glossary);
+            assert.equal((await provider.translate("Review the pull request", { to: "pt-BR" })).text, "[pt-BR] Review the solicitação de pull");
+            assert.equal((await provider.translate("Empty the cart", { to: "pt-PT" })).text, "[pt-PT] Empty the carrinho");
+        });
+
+        test("leaves the terms without a translation for the target language", async function() {
+            const sent = [];
+            const res = await withGlossary(createProvider(sent), glossary).translate("Open the checkout", { to: "es" });
+            assert.deepEqual(sent, ["Open the checkout"]);
+            assert.equal(res.glossary, undefined);
+        });
+
+        test("returns the provider itself for an empty glossary", function() {
+            const provider = createProvider();
+            assert.equal(withGlossary(provider, emptyGlossary()), provider);
+            assert.equal(withGlossary(provider, undefined), provider);
+        });
+    });
+});
@@ -0,0 +1,274 @@
+/* global suite, test */
+const assert = require("assert");
+const json = require("../client/i18n/json");
+const yaml = require("../client/i18n/yaml");
+const po = require("../client/i18n/po");
+const xliff = require("../client/i18n/xliff");
+
+/**
+ * A locale state kept in memory, as the workspace state keeps it
+ */
+function createState(sources = {}) {
+    return {
+        sources,
+        isStale: (id, source) => id in sources && sources[id] !== source,
+        remember: (id, source) => {
+            sources[id] = source;
+        }
+    };
+}
+
+/**
+ * Translates by tagging the texts with the target language, the texts
+ * containing "fail" fail
+ */
+function createTranslate(sent = []) {
+    return async (texts) => {
+        sent.push(...texts);
+        return texts.map((text) => (text.indexOf("fail") !== -1 ? undefined : `[fr] ${text}`));
+    };
+}
+
+function update(format, source, target, options = {}) {
+    return format.update(Object.assign({
+        source,
+        target,
+        from: "en",
+        to: "fr",
+        translate: createTranslate(),
+        state: createState()
+    }, options));
+}
+
+suite("Locale files", function() {
+    suite("JSON", function() {
+        test("creates the target with the structure and the indent of the source", async function() {
+            const source = "{\n    \"home\": {\n        \"title\": \"Welcome\",\n        \"items\": [\"One\", 2]\n    },\n    \"count\": 3\n}\n";
+            const res = await update(json, source, null);
+            assert.equal(res.text, "{\n    \"home\": {\n        \"title\": \"[fr] Welcome\",\n        \"items\": [\n            \"[fr] One\",\n            2\n        ]\n    },\n    \"count\": 3\n}\n");
+            assert.equal(res.translated, 2);
+            assert.equal(res.failed, 0);
+        });
+
+        test("keeps the translations and the keys of the target", async function() {
+            const sent = [];
+            const source = JSON.stringify({ title: "Welcome", added: "New", changed: "Bye now" });
+            const target = JSON.stringify({ title: "Bienvenue", changed: "Au revoir", extra: "Gardé" });
+            const state = createState({ [JSON.stringify(["changed"])]: "Bye" });
+            const res = await update(json, source, target, { translate: createTranslate(sent), state });
+            assert.deepEqual(sent, ["New", "Bye now"]);
+            assert.deepEqual(JSON.parse(res.text), {
+                title: "Bienvenue",
+                added: "[fr] New",
+                changed: "[fr] Bye now",
+                extra: "Gardé"
+            });
+            assert.equal(state.sources[JSON.stringify(["changed"])], "Bye now");
+        });
+
+        test("leaves the failed strings missing or stale", async function() {
+            const source = JSON.stringify({ a: "fail here", b: "fail too" });
+            const state = createState({ [JSON.stringify(["b"])]: "old" });
+            const res = await update(json, source, JSON.stringify({ b: "vieux" }), { state });
+            assert.deepEqual(JSON.parse(res.text), { b: "vieux" });
+            assert.equal(res.failed, 2);
+            assert.equal(state.sources[JSON.stringify(["b"])], "old");
+        });
+    });
+
+    suite("YAML", function() {
+        test("creates the target with the comments of the source", async function() {
+            const source = "# The home page\nhome:\n  title: Welcome # shown first\n  note: Will fail\nlist:\n  - One\n";
+            const res = await update(yaml, source, null);
+            assert.equal(res.text, "# The home page\nhome:\n  title: \"[fr] Welcome\" # shown first\nlist:\n  - \"[fr] One\"\n");
+            assert.equal(res.translated, 2);
+            assert.equal(res.failed, 1);
+        });
+
+        test("adds the missing strings and keeps the others", async function() {
+            const sent = [];
+            const source = "home:\n  title: Welcome\n  subtitle: Hello\nfooter:\n  text: Bye\n";
+            const target = "# Mine\nhome:\n  title: Bienvenue\n";
+            const res = await update(yaml, source, target, { translate: createTranslate(sent) });
+            assert.deepEqual(sent, ["Hello", "Bye"]);
+            assert.equal(res.text, "# Mine\nhome:\n  title: Bienvenue\n  subtitle: \"[fr] Hello\"\nfooter:\n  text: \"[fr] Bye\"\n");
+        });
+
+        test("rejects the invalid documents", async function() {
+            await assert.rejects(update(yaml, "a: [b", null));
+        });
+    });
+
+    suite("gettext", function() {
+        const template = [
+            "msgid \"\"",
+            "msgstr \"\"",
+            "\"Content-Type: text/plain; charset=UTF-8\\n\"",
+            "\"Plural-Forms: nplurals=INTEGER; plural=EXPRESSION;\\n\"",
+            "",
+            "#: src/app.c:12",
+            "msgid \"Open\"",
+            "msgstr \"\"",
+            "",
+            "msgctxt \"menu\"",
+            "msgid \"File\"",
+            "msgstr \"\"",
+            "",
+            "msgid \"One file\"",
+            "msgid_plural \"%d files\"",
+            "msgstr[0] \"\"",
+            "msgstr[1] \"\"",
+            ""
+        ].join("\n");
+
+        test("creates a catalog with the language and the plural forms of the target", async function() {
+            const res = await update(po, template, null, { to: "ru" });
+            const lines = res.text.split("\n");
+            assert.ok(lines.indexOf("\"Language: ru\\n\"") !== -1);
+            assert.ok(lines.some((line) => /^"Plural-Forms: nplurals=3; plural=\(n%10==1/.test(line)));
+            assert.ok(lines.indexOf("#: src/app.c:12") !== -1);
+            assert.ok(lines.indexOf("msgctxt \"menu\"") !== -1);
+            assert.deepEqual(lines.slice(lines.indexOf("msgid \"One file\"")), [
+                "msgid \"One file\"",
+                "msgid_plural \"%d files\"",
+                "msgstr[0] \"[fr] One file\"",
+                "msgstr[1] \"[fr] %d files\"",
+                "msgstr[2] \"[fr] %d files\"",
+                ""
+            ]);
+            assert.equal(res.translated, 3);
+        });
+
+        test("writes the singular in the form of n = 1", async function() {
+            const french = (await update(po, template, null, { to: "fr" })).text;
+            assert.ok(french.indexOf("nplurals=2; plural=(n > 1);") !== -1);
+            assert.ok(french.indexOf("msgstr[0] \"[fr] One file\"\nmsgstr[1] \"[fr] %d files\"") !== -1);
+            const japanese = (await update(po, template, null, { to: "ja" })).text;
+            assert.ok(japanese.endsWith("msgid_plural \"%d files\"\nmsgstr[0] \"[fr] %d files\"\n"));
+        });
+
+        test("translates the missing and fuzzy entries only", async function() {
+            const sent = [];
+            const target = [
+                "msgid \"\"",
+                "msgstr \"\"",
+                "\"Language: fr\\n\"",
+                "\"Plural-Forms: nplurals=2; plural=(n > 1);\\n\"",
+                "",
+                "# Kept as written",
+                "msgid  \"Open\"",
+                "msgstr \"Ouvrir\"",
+                "",
+                "#, fuzzy, c-format",
+                "msgctxt \"menu\"",
+                "msgid \"File\"",
+                "msgstr \"Fichier?\"",
+                ""
+            ].join("\n");
+            const res = await update(po, template, target, { translate: createTranslate(sent) });
+            assert.deepEqual(sent, ["File", "One file", "%d files"]);
+            assert.ok(res.text.indexOf("# Kept as written\nmsgid  \"Open\"\nmsgstr \"Ouvrir\"") !== -1);
+            assert.ok(res.text.indexOf("#, c-format\nmsgctxt \"menu\"\nmsgid \"File\"\nmsgstr \"[fr] File\"") !== -1);
+            assert.ok(res.text.indexOf("msgstr[1] \"[fr] %d files\"") !== -1);
+        });
+
+        test("completes the plural forms left out", async function() {
+            const sent = [];
+            const target = [
+                "msgid \"\"",
+                "msgstr \"\"",
+                "\"Language: fr\\n\"",
+                "\"Plural-Forms: nplurals=2; plural=(n > 1);\\n\"",
+                "",
+                "msgid \"Open\"",
+                "msgstr \"Ouvrir\"",
+                "",
+                "msgctxt \"menu\"",
+                "msgid \"File\"",
+                "msgstr \"Fichier\"",
+                "",
+                "msgid \"One file\"",
+                "msgid_plural \"%d files\"",
+                "msgstr[0] \"Un fichier\"",
+                ""
+            ].join("\n");
+            const res = await update(po, template, target, { translate: createTranslate(sent) });
+            assert.deepEqual(sent, ["One file", "%d files"]);
+            assert.ok(res.text.endsWith("msgstr[0] \"[fr] One file\"\nmsgstr[1] \"[fr] %d files\"\n"));
+        });
+
+        test("keeps the plural forms of an existing catalog", async function() {
+            const target = "msgid \"\"\nmsgstr \"\"\n\"Plural-Forms: nplurals=1; plural=0;\\n\"\n";
+            const res = await update(po, template, target, { to: "fr" });
+            assert.ok(res.text.indexOf("nplurals=1; plural=0;") !== -1);
+            assert.ok(res.text.indexOf("msgstr[0] \"[fr] %d files\"\n") !== -1);
+            assert.equal(res.text.indexOf("msgstr[1]"), -1);
+        });
+
+        test("writes the multi-line strings back", async function() {
+            const source = "msgid \"\"\n\"Line one\\n\"\n\"Line \\\"two\\\"\"\nmsgstr \"\"\n";
+            const res = await update(po, source, null);
+            assert.equal(res.text, "msgid \"\"\n\"Line one\\n\"\n\"Line \\\"two\\\"\"\nmsgstr \"\"\n\"[fr] Line one\\n\"\n\"Line \\\"two\\\"\"\n");
+        });
+    });
+
+    suite("XLIFF", function() {
+        const source12 = [
+            "<xliff version=\"1.2\">",
+            "  <file source-language=\"en\" datatype=\"plaintext\">",
+            "    <body>",
+            "      <trans-unit id=\"greeting\">",
+            "        <source>Hello <x id=\"NAME\"/> &amp; welcome</source>",
+            "      </trans-unit>",
+            "      <trans-unit id=\"bye\">",
+            "        <source>Bye</source>",
+            "      </trans-unit>",
+            "    </body>",
+            "  </file>",
+            "</xliff>"
+        ].join("\n");
+
+        test("adds the targets and the target language of XLIFF 1.2", async function() {
+            const res = await update(xliff, source12, null);
+            assert.ok(res.text.indexOf("<file target-language=\"fr\" source-language=\"en\"") !== -1);
+            assert.ok(res.text.indexOf("<source>Hello <x id=\"NAME\"/> &amp; welcome</source><target state=\"translated\">[fr] Hello <x id=\"NAME\"/> &amp; welcome</target>") !== -1);
+            assert.ok(res.text.indexOf("<source>Bye</source><target state=\"translated\">[fr] Bye</target>") !== -1);
+            assert.equal(res.translated, 2);
+        });
+
+        test("translates the new, changed and unfinished units only", async function() {
+            const sent = [];
+            const target = source12
+                .replace("<source>Bye</source>", "<source>Goodbye</source><target state=\"translated\">Au revoir</target>")
+                .replace("&amp; welcome</source>", "&amp; welcome</source><target state=\"needs-translation\">Salut</target>")
+                .replace(/\s*<trans-unit id="bye">[\s\S]*?<\/trans-unit>/, "")
+                + "";
+            const withKept = target.replace(
+                "    </body>",
+                "      <trans-unit id=\"kept\">\n        <source>Kept</source><target>Gardé</target>\n      </trans-unit>\n    </body>"
+            );
+            const source = source12.replace(
+                "    </body>",
+                "      <trans-unit id=\"kept\">\n        <source>Kept</source>\n      </trans-unit>\n    </body>"
+            );
+            const res = await update(xliff, source, withKept, { translate: createTranslate(sent) });
+            assert.deepEqual(sent, ["Hello ⟦0⟧ & welcome", "Bye"]);
+            assert.ok(res.text.indexOf("<source>Kept</source><target>Gardé</target>") !== -1);
+            assert.ok(res.text.indexOf("<trans-unit id=\"bye\">\n        <source>Bye</source><target state=\"translated\">[fr] Bye</target>") !== -1);
+        });
+
+        test("names the target language of XLIFF 2", async function() {
+            const source = "<xliff version=\"2.0\" srcLang=\"en\">\n<file id=\"f\">\n<unit id=\"u\"><segment><source>Hi</source></segment></unit>\n</file>\n</xliff>";
+            const res = await update(xliff, source, null);
+            assert.equal(res.text, "<xliff trgLang=\"fr\" version=\"2.0\" srcLang=\"en\">\n<file id=\"f\">\n<unit id=\"u\"><segment><source>Hi</source><target>[fr] Hi</target></segment></unit>\n</file>\n</xliff>");
+        });
+
+        test("counts the translations losing an inline tag as failed", async function() {
+            const res = await update(xliff, source12, null, {
+                translate: async (texts) => texts.map((text) => text.replace(/⟦\d⟧/, ""))
+            });
+            assert.equal(res.translated, 1);
+            assert.equal(res.failed, 1);
+        });
+    });
+});
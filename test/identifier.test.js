@@ -0,0 +1,98 @@
+/* global suite, test */
+const assert = require("assert");
+const { parseIdentifier, toIdentifier } = require("../translation/identifier");
+
+suite("Identifiers", function() {
+    suite("parseIdentifier", function() {
+        test("splits camel and Pascal case", function() {
+            assert.deepEqual(parseIdentifier("getUserName"), {
+                words: ["get", "user", "name"],
+                convention: "camel",
+                prefix: "",
+                suffix: ""
+            });
+            assert.equal(parseIdentifier("UserName").convention, "pascal");
+        });
+
+        test("splits snake, kebab and dot case", function() {
+            assert.deepEqual(parseIdentifier("max_file_size").words, ["max", "file", "size"]);
+            assert.equal(parseIdentifier("max_file_size").convention, "snake");
+            assert.equal(parseIdentifier("MAX_FILE_SIZE").convention, "screamingSnake");
+            assert.deepEqual(parseIdentifier("MAX_FILE_SIZE").words, ["max", "file", "size"]);
+            assert.equal(parseIdentifier("font-size").convention, "kebab");
+            assert.equal(parseIdentifier("editor.fontSize").convention, "dot");
+            assert.deepEqual(parseIdentifier("editor.fontSize").words, ["editor", "font", "size"]);
+        });
+
+        test("keeps the acronyms", function() {
+            assert.deepEqual(parseIdentifier("XMLHttpRequest").words, ["XML", "http", "request"]);
+            assert.deepEqual(parseIdentifier("parseHTML5Body").words, ["parse", "HTML5", "body"]);
+        });
+
+        test("keeps the leading and trailing underscores apart", function() {
+            const identifier = parseIdentifier("__private_value_");
+            assert.equal(identifier.prefix, "__");
+            assert.equal(identifier.suffix, "_");
+            assert.deepEqual(identifier.words, ["private", "value"]);
+        });
+
+        test("accepts the letters of any script", function() {
+            assert.deepEqual(parseIdentifier("größeDerDatei").words, ["größe", "der", "datei"]);
+        });
+
+        test("rejects the prose", function() {
+            assert.equal(parseIdentifier("two words"), undefined);
+            assert.equal(parseIdentifier("3rdParty"), undefined);
+            assert.equal(parseIdentifier("end."), undefined);
+            assert.equal(parseIdentifier("___"), undefined);
+        });
+
+        test("rejects the abbreviations", function() {
+            assert.equal(parseIdentifier("e.g"), undefined);
+            assert.equal(parseIdentifier("i.e"), undefined);
+            assert.equal(parseIdentifier("U.S.A"), undefined);
+            assert.deepEqual(parseIdentifier("x").words, ["x"]);
+        });
+    });
+
+    suite("toIdentifier", function() {
+        test("follows the naming convention of the original", function() {
+            const cases = {
+                getUserName: "obtenirNomUtilisateur",
+                GetUserName: "ObtenirNomUtilisateur",
+                get_user_name: "obtenir_nom_utilisateur",
+                GET_USER_NAME: "OBTENIR_NOM_UTILISATEUR",
+                "get-user-name": "obtenir-nom-utilisateur",
+                "get.user.name": "obtenir.nom.utilisateur"
+            };
+            Object.keys(cases).forEach((original) => {
+                const identifier = parseIdentifier(original);
+                assert.equal(toIdentifier("obtenir nom utilisateur", identifier), cases[original], original);
+            });
+        });
+
+        test("keeps the acronyms of the translation", function() {
+            assert.equal(toIdentifier("lire le JSON", parseIdentifier("readJson")), "lireLeJSON");
+        });
+
+        test("drops the apostrophes and punctuation", function() {
+            assert.equal(toIdentifier("l'utilisateur, actif", parseIdentifier("activeUser")), "lutilisateurActif");
+        });
+
+        test("keeps the prefix and the suffix", function() {
+            assert.equal(toIdentifier("valeur privée", parseIdentifier("_privateValue$")), "_valeurPrivée$");
+        });
+
+        test("transliterates for the ASCII-only languages", function() {
+            const identifier = parseIdentifier("file_size");
+            assert.equal(toIdentifier("Größe der Datei", identifier, "c"), "grosse_der_datei");
+            assert.equal(toIdentifier("Größe der Datei", identifier, "python"), "größe_der_datei");
+            assert.equal(toIdentifier("ファイル", identifier, "c"), undefined);
+        });
+
+        test("doesn't start with a digit", function() {
+            assert.equal(toIdentifier("3 essais", parseIdentifier("threeTries")), "_3Essais");
+            assert.equal(toIdentifier("3 essais", parseIdentifier("$threeTries")), "$3Essais");
+        });
+    });
+});
@@ -0,0 +1,109 @@
+/* global suite, test */
+const assert = require("assert");
+const { LanguageRegistry, normalizeCode, withLanguages } = require("../translation/languages");
+
+suite("Languages", function() {
+    test("normalizeCode writes the usual case", function() {
+        assert.equal(normalizeCode("pt_br"), "pt-BR");
+        assert.equal(normalizeCode(" ZH-hant "), "zh-Hant");
+        assert.equal(normalizeCode("es-419"), "es-419");
+        assert.equal(normalizeCode("iw"), "he");
+        assert.equal(normalizeCode("French"), undefined);
+        assert.equal(normalizeCode(undefined), undefined);
+    });
+
+    suite("LanguageRegistry", function() {
+        test("resolves the codes and the regional variants", function() {
+            const registry = new LanguageRegistry();
+            assert.equal(registry.resolve("fr"), "fr");
+            assert.equal(registry.resolve("pt_br"), "pt-BR");
+            assert.equal(registry.resolve("zh-hant"), "zh-Hant");
+            assert.equal(registry.resolve("iw"), "he");
+        });
+
+        test("resolves the names and the aliases", function() {
+            const registry = new LanguageRegistry();
+            assert.equal(registry.resolve("french"), "fr");
+            assert.equal(registry.resolve("Portuguese (Brazil)"), "pt-BR");
+            assert.equal(registry.resolve("Farsi"), "fa");
+            assert.equal(registry.resolve("Chinese"), "zh-CN");
+            assert.equal(registry.resolve("Brazilian Portuguese"), "pt-BR");
+        });
+
+        test("migrates the names of the former settings", function() {
+            const registry = new LanguageRegistry();
+            const former = {
+                Azeerbaijani: "az",
+                "Chinese (Simplified)": "zh-CN",
+                "Chinese (Traditional)": "zh-TW",
+                Hebrew: "he",
+                Javanese: "jv",
+                "Haitian Creole": "ht",
+                "Scots Gaelic": "gd",
+                Myanmar: "my",
+                Nyanja: "ny",
+                Sesotho: "st",
+                Norwegian: "no",
+                Tagalog: "tl"
+            };
+            Object.keys(former).forEach((name) => assert.equal(registry.resolve(name), former[name], name));
+        });
+
+        test("resolves the names in the language of the user interface", function() {
+            const registry = new LanguageRegistry({ displayLocale: "fr" });
+            assert.equal(registry.resolve("allemand"), "de");
+            assert.equal(registry.getLocalizedName("de"), "allemand");
+            assert.equal(registry.getName("de"), "German");
+        });
+
+        test("knows nothing of auto and the unknown languages", function() {
+            const registry = new LanguageRegistry();
+            assert.equal(registry.resolve("auto"), undefined);
+            assert.equal(registry.resolve("Klingon"), undefined);
+            assert.equal(registry.resolve("xx"), undefined);
+            assert.equal(registry.resolve(""), undefined);
+        });
+
+        test("gives the provider the codes it knows", function() {
+            const registry = new LanguageRegistry();
+            assert.equal(registry.toProvider("pt-BR"), "pt-BR");
+            registry._setProvided([
+                { name: "Chinese", value: "zh" },
+                { name: "Hebrew", value: "iw" },
+                { name: "Portuguese", value: "pt" },
+                { name: "Norwegian", value: "nb" },
+                { name: "French", value: "fr" }
+            ]);
+            assert.equal(registry.toProvider("zh-CN"), "zh");
+            assert.equal(registry.toProvider("he"), "iw");
+            assert.equal(registry.toProvider("pt-BR"), "pt");
+            assert.equal(registry.toProvider("no"), "nb");
+            assert.equal(registry.toProvider("fr"), "fr");
+            assert.deepEqual(registry.getCodes(), ["zh", "he", "pt", "nb", "fr"]);
+        });
+    });
+
+    test("withLanguages loads the languages once and normalizes the codes", async function() {
+        const registry = new LanguageRegistry();
+        const requests = [];
+        let loaded = 0;
+        const provider = withLanguages({
+            id: "fake",
+            getLanguages: async () => {
+                loaded++;
+                return [{ name: "Hebrew", value: "iw" }, { name: "Portuguese", value: "pt" }];
+            },
+            translate: async (text, options) => {
+                requests.push(options);
+                return { text, from: "iw" };
+            },
+            detect: async () => "pt_br"
+        }, registry);
+        const res = await provider.translate("שלום", { from: "he", to: "pt-BR" });
+        await provider.translate("Olá", { to: "he" });
+        assert.equal(loaded, 1);
+        assert.deepEqual(requests, [{ from: "iw", to: "pt" }, { from: undefined, to: "iw" }]);
+        assert.equal(res.from, "he");
+        assert.equal(await provider.detect("Olá", {}), "pt-BR");
+    });
+});
@@ -0,0 +1,78 @@
+/* global suite, test */
+const assert = require("assert");
+const { compilePatterns, defaultPatterns, mask, unmask, withMasking } = require("../translation/mask");
+
+const regex = compilePatterns(defaultPatterns);
+
+suite("Masking", function() {
+    test("swaps the protected tokens for numbered markers", function() {
+        const masked = mask("Call getUserName() with {count} and %s", regex);
+        assert.equal(masked.text, "Call ⟦0⟧ with ⟦1⟧ and ⟦2⟧");
+        assert.deepEqual(masked.tokens, ["getUserName()", "{count}", "%s"]);
+    });
+
+    test("restores the tokens at their new place", function() {
+        const masked = mask("Set `max_size` to {count}", regex);
+        assert.equal(unmask("Mettre ⟦1⟧ dans ⟦0⟧", masked), "Mettre {count} dans `max_size`");
+    });
+
+    test("accepts the markers the providers space out", function() {
+        const masked = mask("See https://example.com/docs", regex);
+        assert.equal(unmask("Voir ⟦ 0 ⟧", masked), "Voir https://example.com/docs");
+    });
+
+    test("fails when a marker is lost or duplicated", function() {
+        const masked = mask("Use {name} and {value}", regex);
+        assert.throws(() => unmask("Utiliser ⟦0⟧", masked), /\{value\}/);
+        assert.throws(() => unmask("⟦0⟧ ⟦0⟧ ⟦1⟧", masked), /\{name\}/);
+    });
+
+    test("keeps the markers of a text masked twice apart", function() {
+        const first = mask("Use {name}", regex);
+        const second = mask(first.text + " in %d files", regex);
+        assert.equal(second.start, 1);
+        assert.equal(second.text, "Use ⟦0⟧ in ⟦1⟧ files");
+        assert.equal(unmask(unmask(second.text, second), first), "Use {name} in %d files");
+    });
+
+    test("puts back the replacements instead of the tokens", function() {
+        const masked = mask("Hello {name}", regex);
+        assert.equal(unmask("Bonjour ⟦0⟧", masked, ["Anne"]), "Bonjour Anne");
+    });
+
+    test("leaves the text alone without patterns", function() {
+        assert.deepEqual(mask("Hello {name}", null), { text: "Hello {name}", tokens: [], start: 0 });
+        assert.equal(compilePatterns([]), null);
+    });
+
+    test("ignores the invalid patterns", function() {
+        const error = console.error;
+        console.error = () => {};
+        try {
+            assert.equal(compilePatterns(["(", "\\d+"]).source, "(?:\\d+)");
+        } finally {
+            console.error = error;
+        }
+    });
+
+    test("sends the masked text and round-trips the tokens", async function() {
+        const sent = [];
+        const provider = withMasking({
+            translate: async (text) => {
+                sent.push(text);
+                return { text: text.replace("Delete", "Supprimer").replace("files", "fichiers"), from: "en" };
+            }
+        });
+        const res = await provider.translate("Delete %d files in ${dir}", { to: "fr" });
+        assert.deepEqual(sent, ["Delete ⟦0⟧ files in ⟦1⟧"]);
+        assert.equal(res.text, "Supprimer %d fichiers in ${dir}");
+    });
+
+    test("doesn't send a text with only protected tokens", async function() {
+        const provider = withMasking({
+            translate: () => assert.fail("sent")
+        });
+        const res = await provider.translate("`npm install` {0}", { from: "en", to: "fr" });
+        assert.deepEqual(res, { text: "`npm install` {0}", from: "en" });
+    });
+});
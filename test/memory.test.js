@@ -0,0 +1,124 @@
+/* global suite, test */
+const assert = require("assert");
+const { TranslationMemory, withMemory } = require("../translation/memory");
+
+const tmx = `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header srclang="en" datatype="plaintext"/>
+  <body>
+    <tu creationdate="20190102T030405Z" changedate="20190203T040506Z">
+      <prop type="x-provider">deepl</prop>
+      <tuv xml:lang="en"><seg>Delete <ph x="1">{0}</ph> files?</seg></tuv>
+      <tuv xml:lang="fr"><seg>Supprimer <ph x="1">{0}</ph> fichiers ?</seg></tuv>
+    </tu>
+    <tu srclang="de">
+      <tuv xml:lang="fr"><seg>Ouvrir</seg></tuv>
+      <tuv xml:lang="de"><seg>Öffnen</seg></tuv>
+      <tuv xml:lang="es"><seg>Abrir</seg></tuv>
+    </tu>
+    <tu>
+      <tuv lang="en"><seg><bpt i="1">&lt;b&gt;</bpt>Bold<ept i="1">&lt;/b&gt;</ept> &amp; plain</seg></tuv>
+      <tuv lang="es"><seg><bpt i="1">&lt;b&gt;</bpt>Negrita<ept i="1">&lt;/b&gt;</ept> y normal</seg></tuv>
+    </tu>
+  </body>
+</tmx>`;
+
+suite("Translation memory", function() {
+    test("finds the translations of the same text", function() {
+        const memory = new TranslationMemory();
+        memory.add({ source: "Save  the file", target: "Enregistrer le fichier", from: "en", to: "fr" });
+        assert.equal(memory.lookup("Save the file ", "en", "fr").target, "Enregistrer le fichier");
+        assert.equal(memory.lookup("Save the file", undefined, "fr").target, "Enregistrer le fichier");
+        assert.equal(memory.lookup("Save the file", "en", "de"), undefined);
+    });
+
+    test("replaces the translation of the same text", function() {
+        const memory = new TranslationMemory();
+        memory.add({ source: "Open", target: "Ouvre", from: "en", to: "fr" });
+        memory.add({ source: "Open", target: "Ouvrir", from: "en", to: "fr" });
+        assert.equal(memory.size, 1);
+        assert.equal(memory.lookup("Open", "en", "fr").target, "Ouvrir");
+    });
+
+    test("suggests the translations of similar texts", function() {
+        const memory = new TranslationMemory();
+        memory.add({ source: "Delete the selected files", target: "Supprimer les fichiers sélectionnés", from: "en", to: "fr" });
+        memory.add({ source: "Unrelated sentence", target: "Phrase sans rapport", from: "en", to: "fr" });
+        const [match, ...others] = memory.suggest("Delete the selected file", { to: "fr" });
+        assert.equal(match.entry.source, "Delete the selected files");
+        assert.ok(match.score > 0.9 && match.score < 1);
+        assert.deepEqual(others, []);
+    });
+
+    test("uses the machine translations only once approved", async function() {
+        const memory = new TranslationMemory();
+        const entry = memory.add({ source: "Open the file", target: "Ouvre le fichier", from: "en", to: "fr", provider: "google", approved: false });
+        assert.equal(entry.approved, false);
+        assert.equal(memory.lookup("Open the file", "en", "fr"), undefined);
+        assert.deepEqual(memory.suggest("Open the files", { to: "fr" }), []);
+        const provider = withMemory({ translate: async () => ({ text: "Ouvrir le fichier", from: "en" }) }, memory);
+        assert.equal((await provider.translate("Open the file", { from: "en", to: "fr" })).text, "Ouvrir le fichier");
+
+        memory.update(entry.id);
+        assert.equal(memory.lookup("Open the file", "en", "fr").target, "Ouvre le fichier");
+        assert.equal(memory.suggest("Open the files", { to: "fr" })[0].entry.id, entry.id);
+        assert.equal((await provider.translate("Open the file", { from: "en", to: "fr" })).text, "Ouvre le fichier");
+    });
+
+    test("doesn't replace an approved translation with a machine one", function() {
+        const memory = new TranslationMemory();
+        memory.add({ source: "Open", target: "Ouvrir", from: "en", to: "fr" });
+        memory.add({ source: "Open", target: "Ouvre", from: "en", to: "fr", provider: "google", approved: false });
+        assert.equal(memory.lookup("Open", "en", "fr").target, "Ouvrir");
+        memory.add({ source: "Close", target: "Ferme", from: "en", to: "fr", provider: "google", approved: false });
+        memory.add({ source: "Close", target: "Fermer", from: "en", to: "fr", provider: "google", approved: false });
+        assert.equal(memory.size, 2);
+        assert.equal(memory.entries().find((e) => e.source === "Close").target, "Fermer");
+    });
+
+    suite("TMX", function() {
+        test("imports a pair for each translation of a unit", function() {
+            const memory = new TranslationMemory();
+            assert.equal(memory.importTmx(tmx), 4);
+            assert.equal(memory.lookup("Öffnen", "de", "fr").target, "Ouvrir");
+            assert.equal(memory.lookup("Öffnen", "de", "es").target, "Abrir");
+        });
+
+        test("reads the provider and the dates", function() {
+            const memory = new TranslationMemory();
+            memory.importTmx(tmx);
+            const entry = memory.lookup("Delete {0} files?", "en", "fr");
+            assert.equal(entry.provider, "deepl");
+            assert.equal(entry.created, Date.UTC(2019, 0, 2, 3, 4, 5));
+            assert.equal(entry.updated, Date.UTC(2019, 1, 3, 4, 5, 6));
+            assert.equal(memory.lookup("Öffnen", "de", "fr").provider, "tmx");
+        });
+
+        test("keeps the placeholders and tags of the inline markup", function() {
+            const memory = new TranslationMemory();
+            memory.importTmx(tmx);
+            assert.equal(memory.lookup("Delete {0} files?", "en", "fr").target, "Supprimer {0} fichiers ?");
+            assert.equal(memory.lookup("<b>Bold</b> & plain", "en", "es").target, "<b>Negrita</b> y normal");
+        });
+
+        test("exports the entries it imports back", function() {
+            const memory = new TranslationMemory();
+            memory.add({ source: "<b>Bold</b> & \"quoted\"", target: "<b>Gras</b> & « cité »", from: "en", to: "fr", provider: "google" });
+            memory.add({ source: "Open", target: "Ouvre", from: "en", to: "fr", provider: "google", approved: false });
+            const xml = memory.exportTmx();
+            assert.equal(xml.indexOf("Ouvre"), -1);
+            assert.ok(xml.indexOf("<seg>&lt;b&gt;Bold&lt;/b&gt; &amp; &quot;quoted&quot;</seg>") !== -1);
+
+            const copy = new TranslationMemory();
+            assert.equal(copy.importTmx(xml), 1);
+            const original = memory.entries().find((e) => e.approved);
+            const [entry] = copy.entries();
+            assert.deepEqual(
+                [entry.source, entry.target, entry.from, entry.to, entry.provider],
+                [original.source, original.target, "en", "fr", "google"]
+            );
+            // TMX dates have no milliseconds
+            assert.equal(entry.created, Math.floor(original.created / 1000) * 1000);
+        });
+    });
+});
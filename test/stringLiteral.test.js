@@ -0,0 +1,127 @@
+/* global suite, test */
+const assert = require("assert");
+const { decodeStringLiteral, encodeStringLiteral, getStringSyntax } = require("../translation/stringLiteral");
+
+function encode(languageId, opening, text, source) {
+    return encodeStringLiteral(text, getStringSyntax(languageId, opening), source);
+}
+
+function decode(languageId, opening, text) {
+    return decodeStringLiteral(text, getStringSyntax(languageId, opening));
+}
+
+suite("String literals", function() {
+    suite("getStringSyntax", function() {
+        test("reads the quote and the prefix", function() {
+            assert.deepEqual(getStringSyntax("python", "x = rb'"), {
+                quote: "'",
+                raw: true,
+                multiline: false,
+                doubled: false,
+                json: false,
+                interpolation: 0,
+                doubledBraces: false
+            });
+            assert.equal(getStringSyntax("python", "f\"\"\"").multiline, true);
+            assert.equal(getStringSyntax("python", "f\"\"\"").interpolation, 1);
+            assert.equal(getStringSyntax("csharp", "var s = $$\"\"\"").interpolation, 2);
+            assert.equal(getStringSyntax("csharp", "var s = @$\"").doubled, true);
+            assert.equal(getStringSyntax("jsonc", "\"key\": \"").json, true);
+        });
+
+        test("reads the middle lines of a multi-line string from its scope", function() {
+            const go = getStringSyntax("go", "", "string.quoted.raw.go");
+            assert.equal(go.quote, "`");
+            assert.equal(go.raw, true);
+            const template = getStringSyntax("typescript", "", "string.template.ts");
+            assert.equal(template.quote, "`");
+            assert.equal(template.raw, false);
+            assert.equal(getStringSyntax("python", "", "string.interpolated.python").doubledBraces, true);
+        });
+    });
+
+    suite("decodeStringLiteral", function() {
+        test("reads the escape sequences", function() {
+            assert.equal(decode("javascript", "'", "It\\'s\\ta \\u00e9\\u{1F600}\\x41\\\\"), "It's\ta é😀A\\");
+            assert.equal(decode("javascript", "\"", "one \\\ntwo"), "one two");
+        });
+
+        test("leaves the raw strings alone", function() {
+            assert.equal(decode("python", "r'", "C:\\new"), "C:\\new");
+            assert.equal(decode("go", "`", "a\\nb"), "a\\nb");
+        });
+
+        test("reads the doubled quotes of the C# verbatim strings", function() {
+            assert.equal(decode("csharp", "@\"", "Say \"\"hi\"\" to C:\\temp"), "Say \"hi\" to C:\\temp");
+        });
+
+        test("reads the doubled braces of the interpolated strings", function() {
+            assert.equal(decode("python", "f'", "{{literal}} {value}"), "{literal} {value}");
+            assert.equal(decode("csharp", "$\"", "{{0}} {count}"), "{0} {count}");
+            assert.equal(decode("csharp", "$$\"\"\"", "{literal} {{count}}"), "{literal} {{count}}");
+        });
+    });
+
+    suite("encodeStringLiteral", function() {
+        test("escapes the quote of the literal only", function() {
+            assert.equal(encode("javascript", "'", "It's \"fine\""), "It\\'s \"fine\"");
+            assert.equal(encode("javascript", "\"", "It's \"fine\""), "It's \\\"fine\\\"");
+            assert.equal(encode("typescript", "`", "Use `npm` here"), "Use \\`npm\\` here");
+        });
+
+        test("escapes the backslashes and the control characters", function() {
+            assert.equal(encode("java", "\"", "C:\\temp\tone\ntwo"), "C:\\\\temp\\tone\\ntwo");
+            assert.equal(encode("javascript", "`", "one\r\ntwo"), "one\ntwo");
+        });
+
+        test("writes only the JSON escapes in JSON", function() {
+            assert.equal(encode("json", "\"", "a\u0001\"b\"\n"), "a\\u0001\\\"b\\\"\\n");
+        });
+
+        test("escapes the quotes that would end a triple-quoted string", function() {
+            assert.equal(encode("python", "\"\"\"", "Say \"hi\" and \"\"\"\nend\""), "Say \"hi\" and \\\"\\\"\"\nend\\\"");
+            assert.equal(encode("python", "'''", "It's ''' here"), "It's \\'\\'' here");
+        });
+
+        test("writes the raw strings as they are", function() {
+            assert.equal(encode("python", "r'", "C:\\new"), "C:\\new");
+            assert.equal(encode("go", "`", "C:\\new\nline"), "C:\\new\nline");
+        });
+
+        test("refuses what a raw string can't hold", function() {
+            assert.throws(() => encode("python", "r'", "It's"), /raw string/);
+            assert.throws(() => encode("python", "r'", "one\ntwo"), /several lines/);
+            assert.throws(() => encode("go", "`", "Use `go`"), /raw string/);
+        });
+
+        test("doubles the quotes of the C# verbatim strings", function() {
+            assert.equal(encode("csharp", "@\"", "Say \"hi\" to C:\\temp"), "Say \"\"hi\"\" to C:\\temp");
+        });
+
+        test("keeps the interpolations and doubles the other braces", function() {
+            assert.equal(encode("python", "f'", "{count} fichiers {entre accolades}", "{count} files"), "{count} fichiers {{entre accolades}}");
+            assert.equal(encode("csharp", "$\"", "Bonjour {name}, {0}", "Hello {name}"), "Bonjour {name}, {{0}}");
+            assert.equal(encode("csharp", "$@\"", "{x} \"q\" }", "{x}"), "{x} \"\"q\"\" }}");
+            assert.equal(encode("python", "'", "{0} stays"), "{0} stays");
+        });
+
+        test("round-trips the interpolated strings", function() {
+            const source = "{{literal}} {value}";
+            const text = decode("python", "f\"", source);
+            assert.equal(encode("python", "f\"", text, source), source);
+        });
+
+        test("refuses the braces a C# raw interpolated string can't hold", function() {
+            assert.equal(encode("csharp", "$$\"\"\"", "{ JSON } {{count}}", "{{count}}"), "{ JSON } {{count}}");
+            assert.throws(() => encode("csharp", "$$\"\"\"", "{{x}} {{count}}", "{{count}}"), /braces/);
+            assert.throws(() => encode("csharp", "$\"\"\"", "{x}", ""), /braces/);
+        });
+
+        test("round-trips the escaped literals", function() {
+            const text = "Line \"one\"\n\tIt's C:\\ é";
+            [["javascript", "'"], ["javascript", "\""], ["typescript", "`"], ["python", "'''"], ["java", "\""], ["json", "\""]].forEach(([languageId, opening]) => {
+                assert.equal(decode(languageId, opening, encode(languageId, opening, text)), text, `${languageId} ${opening}`);
+            });
+        });
+    });
+});
@@ -0,0 +1,441 @@
+/**
+ * Network errors worth another try
+ */
+const TRANSIENT_CODES = ["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"];
+
+const DEFAULT_LIMITS = { maxChars: 5000, maxSegments: 1 };
+
+/**
+ * The order the waiting requests are sent in: the hovers the user waits
+ * for, then the commands, then the work done in the background
+ */
+const Priority = { background: 0, normal: 1, interactive: 2 };
+
+/**
+ * Where a long text may be split, from the best boundary to the worst
+ */
+const BOUNDARIES = [/\n[^\S\n]*\n\s*/g, /\n\s*/g, /[.!?。！？]\s+/g, /\s+/g];
+
+/**
+ * @typedef CancellationToken
+ * @property {boolean} isCancellationRequested
+ * @property {(listener: () => void) => {dispose: () => void}} [onCancellationRequested]
+ */
+
+/**
+ * @typedef RequestOptions
+ * @property {number} [priority] One of `Priority`, `Priority.normal` by default
+ * @property {CancellationToken} [token] Cancels the request while it waits for a slot
+ */
+
+/**
+ * @typedef Piece
+ * @property {string} text
+ * @property {CancellationToken} [token]
+ * @property {(error: Error|null, result?: import("./providers").TranslateResult) => void} done
+ */
+
+/**
+ * @typedef Job
+ * @property {number} priority
+ * @property {CancellationToken} [token]
+ * @property {() => Promise<void>} start
+ * @property {() => void} cancel
+ */
+
+/**
+ * Rejects the requests cancelled before they were sent
+ */
+class CancelledError extends Error {
+  constructor() {
+    super("The translation was cancelled");
+    this.cancelled = true;
+  }
+}
+
+function isCancelled(token) {
+  return !!token && token.isCancellationRequested;
+}
+
+/**
+ * @typedef BatchResult
+ * @property {string} [text] The translation
+ * @property {string} [from] The source language
+ * @property {Error} [error] Why the text could not be translated
+ */
+
+function isTransient(error) {
+  if (error.statusCode) {
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return TRANSIENT_CODES.indexOf(error.code) !== -1;
+}
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Splits a text longer than `maxChars` at paragraph, line, sentence
+ * or word boundaries. Each chunk keeps the whitespace that followed it
+ * apart, so the translations can be joined the same way.
+ *
+ * @param {string} text
+ * @param {number} maxChars
+ * @returns {Array<{text: string, separator: string}>}
+ */
+function splitText(text, maxChars) {
+  const chunks = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let end = maxChars;
+    for (const boundary of BOUNDARIES) {
+      let last = -1;
+      let match;
+      boundary.lastIndex = 0;
+      while ((match = boundary.exec(window))) {
+        last = match.index + match[0].length;
+      }
+      // Don't cut tiny chunks when a finer boundary does better
+      if (last > maxChars / 4) {
+        end = last;
+        break;
+      }
+    }
+    const chunk = rest.slice(0, end);
+    const separator = /\s*$/.exec(chunk)[0];
+    chunks.push({
+      text: chunk.slice(0, chunk.length - separator.length),
+      separator,
+    });
+    rest = rest.slice(end);
+  }
+  chunks.push({ text: rest, separator: "" });
+  return chunks;
+}
+
+/**
+ * Groups pieces into requests respecting the provider limits
+ *
+ * @param {Array<Piece>} pieces
+ * @param {import("./providers").ProviderLimits} limits
+ * @returns {Array<Array<Piece>>}
+ */
+function pack(pieces, limits) {
+  const batches = [];
+  let batch = [];
+  let size = 0;
+  pieces.forEach((piece) => {
+    if (
+      batch.length &&
+      (batch.length >= limits.maxSegments ||
+        size + piece.text.length > limits.maxChars)
+    ) {
+      batches.push(batch);
+      batch = [];
+      size = 0;
+    }
+    batch.push(piece);
+    size += piece.text.length;
+  });
+  if (batch.length) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Sends the translation requests of the commands and the hover server.
+ *
+ * The texts queued during the same tick are packed into as few requests as
+ * the provider accepts, long texts are split, at most `concurrency` requests
+ * run at the same time and the requests refused with 429 or 5xx are retried
+ * with an exponential backoff. The waiting requests are sent by priority,
+ * and dropped when they are cancelled before being sent.
+ */
+class BatchScheduler {
+  /**
+   * @param {{concurrency?: number, retries?: number, baseDelay?: number, maxDelay?: number}} [options]
+   */
+  constructor(options = {}) {
+    this.concurrency = options.concurrency || 4;
+    this.retries = typeof options.retries === "number" ? options.retries : 3;
+    this.baseDelay = options.baseDelay || 500;
+    this.maxDelay = options.maxDelay || 16000;
+    this._active = 0;
+    /** @type {Array<Job>} */
+    this._waiting = [];
+    /** @type {Map<string, {provider: import("./providers").TranslateProvider, options: import("./providers").TranslateOptions, priority: number, segments: Array<Piece>}>} */
+    this._groups = new Map();
+    this._flushScheduled = false;
+  }
+
+  /**
+   * Runs a request once a slot is free, retrying its transient failures
+   *
+   * @template T
+   * @param {() => Promise<T>} request
+   * @param {RequestOptions} [options]
+   * @returns {Promise<T>}
+   */
+  run(request, { priority = Priority.normal, token } = {}) {
+    return new Promise((resolve, reject) => {
+      if (isCancelled(token)) {
+        reject(new CancelledError());
+        return;
+      }
+      let subscription;
+      /** @type {Job} */
+      const job = {
+        priority,
+        token,
+        start: () => {
+          if (subscription) {
+            subscription.dispose();
+          }
+          return this._attempt(request).then(resolve, reject);
+        },
+        cancel: () => reject(new CancelledError()),
+      };
+      if (token && token.onCancellationRequested) {
+        // Leave the queue right away, instead of when a slot frees up
+        subscription = token.onCancellationRequested(() => {
+          subscription.dispose();
+          const index = this._waiting.indexOf(job);
+          if (index !== -1) {
+            this._waiting.splice(index, 1);
+            job.cancel();
+          }
+        });
+      }
+      this._waiting.push(job);
+      this._next();
+    });
+  }
+
+  /**
+   * Queues a text, resolved once the request holding it is answered
+   *
+   * @param {import("./providers").TranslateProvider} provider
+   * @param {string} text
+   * @param {import("./providers").TranslateOptions & RequestOptions} options
+   * @returns {Promise<import("./providers").TranslateResult>}
+   */
+  translate(provider, text, options) {
+    return new Promise((resolve, reject) => {
+      const priority = typeof options.priority === "number" ? options.priority : Priority.normal;
+      const key = JSON.stringify([provider.id, options.from || "auto", options.to, priority]);
+      let group = this._groups.get(key);
+      if (!group) {
+        group = { provider, options: { from: options.from, to: options.to }, priority, segments: [] };
+        this._groups.set(key, group);
+      }
+      group.segments.push({
+        text,
+        token: options.token,
+        done: (error, result) => (error ? reject(error) : resolve(result)),
+      });
+      if (!this._flushScheduled) {
+        this._flushScheduled = true;
+        setImmediate(() => this._flush());
+      }
+    });
+  }
+
+  _next() {
+    while (this._active < this.concurrency && this._waiting.length) {
+      // The first of the highest priority
+      let index = 0;
+      this._waiting.forEach((job, i) => {
+        if (job.priority > this._waiting[index].priority) {
+          index = i;
+        }
+      });
+      const [job] = this._waiting.splice(index, 1);
+      if (isCancelled(job.token)) {
+        job.cancel();
+        continue;
+      }
+      this._active++;
+      job.start().then(() => {
+        this._active--;
+        this._next();
+      });
+    }
+  }
+
+  async _attempt(request) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (e) {
+        if (attempt >= this.retries || !isTransient(e)) {
+          throw e;
+        }
+        await delay(this._backoff(attempt, e));
+      }
+    }
+  }
+
+  _backoff(attempt, error) {
+    if (error.retryAfter) {
+      return Math.min(error.retryAfter, this.maxDelay);
+    }
+    const ceiling = Math.min(this.baseDelay * Math.pow(2, attempt), this.maxDelay);
+    // Jitter keeps the retried requests from arriving together
+    return ceiling / 2 + (Math.random() * ceiling) / 2;
+  }
+
+  _flush() {
+    this._flushScheduled = false;
+    const groups = Array.from(this._groups.values());
+    this._groups.clear();
+    groups.forEach(({ provider, options, priority, segments }) => {
+      const limits = Object.assign({}, DEFAULT_LIMITS, provider.limits);
+      if (!provider.translateMany) {
+        limits.maxSegments = 1;
+      }
+      const pieces = [];
+      segments.forEach((segment) => {
+        if (isCancelled(segment.token)) {
+          segment.done(new CancelledError());
+          return;
+        }
+        const chunks = splitText(segment.text, limits.maxChars);
+        if (chunks.length === 1) {
+          pieces.push(segment);
+          return;
+        }
+        const results = [];
+        let left = chunks.length;
+        let failed = false;
+        chunks.forEach((chunk, i) => {
+          pieces.push({
+            text: chunk.text,
+            token: segment.token,
+            done: (error, result) => {
+              if (failed) {
+                return;
+              }
+              if (error) {
+                failed = true;
+                segment.done(error);
+                return;
+              }
+              results[i] = result;
+              if (--left === 0) {
+                segment.done(null, {
+                  text: results
+                    .map((res, j) => res.text + chunks[j].separator)
+                    .join(""),
+                  from: results[0].from,
+                });
+              }
+            },
+          });
+        });
+      });
+      pack(pieces, limits).forEach((batch) =>
+        this._send(provider, batch, options, priority)
+      );
+    });
+  }
+
+  /**
+   * @param {import("./providers").TranslateProvider} provider
+   * @param {Array<Piece>} batch
+   * @param {import("./providers").TranslateOptions} options
+   * @param {number} priority
+   */
+  _send(provider, batch, options, priority) {
+    const request =
+      batch.length === 1
+        ? () =>
+            provider
+              .translate(batch[0].text, options)
+              .then((result) => [result])
+        : () =>
+            provider.translateMany(
+              batch.map((piece) => piece.text),
+              options
+            );
+    // A batch is cancelled when all its texts are
+    const token =
+      batch.length === 1
+        ? batch[0].token
+        : {
+            get isCancellationRequested() {
+              return batch.every((piece) => isCancelled(piece.token));
+            },
+          };
+    this.run(request, { priority, token }).then(
+      (results) => batch.forEach((piece, i) => piece.done(null, results[i])),
+      (e) => {
+        if (batch.length === 1) {
+          batch[0].done(e);
+          return;
+        }
+        // Send the texts one by one so a single bad text doesn't fail the others
+        batch.forEach((piece) => this._send(provider, [piece], options, priority));
+      }
+    );
+  }
+}
+
+/**
+ * Wraps a provider so its requests go through the scheduler
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {BatchScheduler} scheduler
+ * @returns {import("./providers").TranslateProvider}
+ */
+function withBatching(provider, scheduler) {
+  return Object.assign({}, provider, {
+    translate(text, options) {
+      return scheduler.translate(provider, text, options);
+    },
+    detect(text, options) {
+      return scheduler.run(() => provider.detect(text), options);
+    },
+  });
+}
+
+/**
+ * Translates every text, the failures don't stop the others
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {Array<string>} texts
+ * @param {import("./providers").TranslateOptions} options
+ * @param {(done: number, total: number) => void} [onProgress]
+ * @returns {Promise<Array<BatchResult>>} The results in the order of the texts
+ */
+function translateAll(provider, texts, options, onProgress) {
+  let done = 0;
+  return Promise.all(
+    texts.map((text) =>
+      provider
+        .translate(text, options)
+        .then(
+          (res) => ({ text: res.text, from: res.from }),
+          (error) => ({ error })
+        )
+        .then((result) => {
+          done++;
+          if (onProgress) {
+            onProgress(done, texts.length);
+          }
+          return result;
+        })
+    )
+  );
+}
+
+module.exports = {
+  BatchScheduler,
+  CancelledError,
+  Priority,
+  splitText,
+  translateAll,
+  withBatching,
+};
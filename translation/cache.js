@@ -0,0 +1,241 @@
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * @typedef CacheEntry
+ * @property {import("./providers").TranslateResult} value The cached translation
+ * @property {number} time When the entry was last used
+ */
+
+// The caches of version 1 held the secrets of the redacted texts
+const CACHE_VERSION = 2;
+
+/**
+ * Least recently used translation cache, persisted to a JSON file.
+ *
+ * The extension and the hover server both open the same file, so the
+ * entries on disk are merged with the ones in memory before each save.
+ */
+class TranslationCache {
+  /**
+   * @param {string} [file] Where to persist the entries, kept in memory only when omitted
+   * @param {number} [maxEntries] How many translations to keep
+   */
+  constructor(file, maxEntries = 2000) {
+    this.file = file;
+    this.maxEntries = maxEntries;
+    /** @type {Map<string, CacheEntry>} */
+    this._entries = new Map();
+    /** @type {Map<string, Promise<any>>} */
+    this._pending = new Map();
+    this._saveTimer = null;
+    this._dirty = false;
+    this._load();
+  }
+
+  /**
+   * Computes the content address of a translation
+   *
+   * @param {string} text The source text
+   * @param {string} from The source language
+   * @param {string} to The target language
+   * @param {string} provider The provider id
+   * @returns {string}
+   */
+  static key(text, from, to, provider) {
+    return crypto
+      .createHash("sha1")
+      .update(JSON.stringify([provider, from || "auto", to, text]))
+      .digest("hex");
+  }
+
+  get size() {
+    return this._entries.size;
+  }
+
+  get(key) {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    // Move the entry to the most recently used end
+    this._entries.delete(key);
+    entry.time = Date.now();
+    this._entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key, value) {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+    this._entries.delete(key);
+    this._entries.set(key, { value, time: Date.now() });
+    this._evict();
+    this._scheduleSave();
+  }
+
+  /**
+   * Returns the cached value, or runs the factory once for all
+   * the callers asking for the same key at the same time
+   *
+   * @param {string} key The content address
+   * @param {() => Promise<any>} factory Computes the missing value
+   * @returns {Promise<any>}
+   */
+  getOrCreate(key, factory) {
+    const cached = this.get(key);
+    if (cached !== undefined) {
+      return Promise.resolve(cached);
+    }
+    if (this._pending.has(key)) {
+      return this._pending.get(key);
+    }
+    const pending = factory().then(
+      (value) => {
+        this._pending.delete(key);
+        this.set(key, value);
+        return value;
+      },
+      (e) => {
+        this._pending.delete(key);
+        throw e;
+      }
+    );
+    this._pending.set(key, pending);
+    return pending;
+  }
+
+  /**
+   * Forgets every entry, on disk too
+   */
+  clear() {
+    this._entries.clear();
+    this._dirty = false;
+    clearTimeout(this._saveTimer);
+    this._saveTimer = null;
+    if (this.file) {
+      try {
+        fs.unlinkSync(this.file);
+      } catch (e) {
+        // Nothing was persisted yet
+      }
+    }
+  }
+
+  /**
+   * Writes pending changes to disk right away
+   */
+  flush() {
+    clearTimeout(this._saveTimer);
+    this._saveTimer = null;
+    if (!this.file || !this._dirty) {
+      return;
+    }
+    this._dirty = false;
+    try {
+      // Another process may have added entries since we loaded the file
+      const merged = new Map(
+        this._readFile().concat(Array.from(this._entries.entries()))
+      );
+      this._entries = new Map(
+        Array.from(merged.entries()).sort((a, b) => a[1].time - b[1].time)
+      );
+      this._evict();
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.${process.pid}.tmp`;
+      fs.writeFileSync(
+        tmp,
+        JSON.stringify({
+          version: CACHE_VERSION,
+          entries: Array.from(this._entries.entries()),
+        })
+      );
+      fs.renameSync(tmp, this.file);
+    } catch (e) {
+      console.error(`Unable to save the translation cache to ${this.file}`, e);
+    }
+  }
+
+  _evict() {
+    while (this._entries.size > Math.max(this.maxEntries, 0)) {
+      this._entries.delete(this._entries.keys().next().value);
+    }
+  }
+
+  _scheduleSave() {
+    this._dirty = true;
+    if (!this.file || this._saveTimer) {
+      return;
+    }
+    this._saveTimer = setTimeout(() => this.flush(), 2000);
+    if (this._saveTimer.unref) {
+      this._saveTimer.unref();
+    }
+  }
+
+  /**
+   * @returns {Array<[string, CacheEntry]>}
+   */
+  _readFile() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      if (data && data.version === CACHE_VERSION && Array.isArray(data.entries)) {
+        return data.entries;
+      }
+    } catch (e) {
+      // Missing or corrupted cache, start over
+    }
+    return [];
+  }
+
+  _load() {
+    if (!this.file) {
+      return;
+    }
+    this._entries = new Map(
+      this._readFile().sort((a, b) => a[1].time - b[1].time)
+    );
+    this._evict();
+  }
+}
+
+/**
+ * Wraps a provider so its translations and detections go through the cache,
+ * but for the texts with secrets, whose translations would hold them
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {TranslationCache} cache
+ * @returns {import("./providers").TranslateProvider}
+ */
+function withCache(provider, cache) {
+  const id = provider.cacheId || provider.id;
+  return Object.assign({}, provider, {
+    translate(text, options) {
+      if (provider.redacts && provider.redacts(text)) {
+        return provider.translate(text, options);
+      }
+      return cache.getOrCreate(
+        TranslationCache.key(text, options.from, options.to, id),
+        () => provider.translate(text, options)
+      );
+    },
+    detect(text, options) {
+      if (provider.redacts && provider.redacts(text)) {
+        return provider.detect(text, options);
+      }
+      // Detections are stored as results without a target language
+      return cache
+        .getOrCreate(TranslationCache.key(text, undefined, "", id), () =>
+          provider.detect(text, options).then((from) => ({ text, from }))
+        )
+        .then((res) => res.from);
+    },
+  });
+}
+
+module.exports = {
+  TranslationCache,
+  withCache,
+};
@@ -0,0 +1,65 @@
+/**
+ * Turns a glob into a regular expression: `**` matches any number of
+ * folders, `*` and `?` any characters but `/`, `{a,b}` any alternative
+ *
+ * @param {string} glob
+ * @returns {RegExp}
+ */
+function globToRegExp(glob) {
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // `**/` also matches no folder at all
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Tells whether a path matches one of the globs. The globs are matched
+ * against every trailing part of the path too, so `src/generated/**`
+ * matches `/home/me/project/src/generated/api.ts`.
+ *
+ * @param {string} path A path using `/` as separator
+ * @param {Array<string>} globs
+ * @returns {boolean}
+ */
+function matchesGlobs(path, globs) {
+  const regexes = (globs || []).map(globToRegExp);
+  const normalized = path.replace(/\\/g, "/");
+  const candidates = [normalized];
+  for (let i = normalized.indexOf("/"); i !== -1; i = normalized.indexOf("/", i + 1)) {
+    candidates.push(normalized.slice(i + 1));
+  }
+  return regexes.some((regex) =>
+    candidates.some((candidate) => regex.test(candidate))
+  );
+}
+
+module.exports = {
+  globToRegExp,
+  matchesGlobs,
+};
@@ -0,0 +1,175 @@
+const fs = require("fs");
+const { mask, unmask } = require("./mask");
+
+/**
+ * The content of a glossary file:
+ *
+ * ```json
+ * {
+ *   "doNotTranslate": ["Acme Cloud"],
+ *   "terms": { "checkout": { "fr": "paiement", "de": "Kasse" } }
+ * }
+ * ```
+ *
+ * @typedef Glossary
+ * @property {Array<string>} doNotTranslate Terms kept as they are
+ * @property {Object.<string, Object.<string, string>>} terms Fixed translations by target language
+ */
+
+/**
+ * @returns {Glossary}
+ */
+function emptyGlossary() {
+  return { doNotTranslate: [], terms: {} };
+}
+
+/**
+ * Reads and merges glossary files, the missing ones are skipped
+ *
+ * @param {Array<string>} files The glossary file paths
+ * @returns {Glossary}
+ */
+function loadGlossary(files) {
+  const glossary = emptyGlossary();
+  files.forEach((file) => {
+    let content;
+    try {
+      content = fs.readFileSync(file, "utf8");
+    } catch (e) {
+      return;
+    }
+    let data;
+    try {
+      data = JSON.parse(content);
+    } catch (e) {
+      throw new Error(`The glossary ${file} is not valid JSON: ${e.message}`);
+    }
+    if (Array.isArray(data.doNotTranslate)) {
+      glossary.doNotTranslate = glossary.doNotTranslate.concat(
+        data.doNotTranslate.filter((term) => typeof term === "string" && term)
+      );
+    }
+    if (data.terms && typeof data.terms === "object") {
+      Object.keys(data.terms).forEach((term) => {
+        glossary.terms[term] = Object.assign(
+          {},
+          glossary.terms[term],
+          data.terms[term]
+        );
+      });
+    }
+  });
+  return glossary;
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Finds the fixed translation of a term for a target language,
+ * falling back from a regional variant to its base language
+ *
+ * @param {Object.<string, string>} translations
+ * @param {string} to
+ * @returns {string|undefined}
+ */
+function findTranslation(translations, to) {
+  if (!translations || !to) {
+    return undefined;
+  }
+  const lower = to.toLowerCase();
+  const key = Object.keys(translations).find(
+    (language) => language.toLowerCase() === lower
+  );
+  if (key) {
+    return translations[key];
+  }
+  const base = Object.keys(translations).find(
+    (language) => language.toLowerCase() === lower.split("-")[0]
+  );
+  return base && translations[base];
+}
+
+/**
+ * Wraps a provider so glossary terms are enforced. The result lists the
+ * enforced terms in `glossary`.
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {Glossary} [glossary]
+ * @returns {import("./providers").TranslateProvider}
+ */
+function withGlossary(provider, glossary) {
+  if (!glossary) {
+    return provider;
+  }
+  if (!glossary.doNotTranslate.length && !Object.keys(glossary.terms).length) {
+    return provider;
+  }
+  /** @type {Map<string, RegExp|null>} */
+  const regexes = new Map();
+
+  // Only the terms with a translation for the target language are enforced
+  function getRegex(to) {
+    if (!regexes.has(to)) {
+      const terms = Object.keys(glossary.terms)
+        .filter((term) => !!findTranslation(glossary.terms[term], to))
+        .concat(glossary.doNotTranslate);
+      // Longest terms first, so "Acme Cloud" wins over "Acme"
+      regexes.set(
+        to,
+        terms.length
+          ? new RegExp(
+              `(?<![\\p{L}\\p{N}_])(?:${terms
+                .sort((a, b) => b.length - a.length)
+                .map(escapeRegExp)
+                .join("|")})(?![\\p{L}\\p{N}_])`,
+              "giu"
+            )
+          : null
+      );
+    }
+    return regexes.get(to);
+  }
+
+  const doNotTranslate = new Set(
+    glossary.doNotTranslate.map((term) => term.toLowerCase())
+  );
+  const fixedTerms = {};
+  Object.keys(glossary.terms).forEach((term) => {
+    fixedTerms[term.toLowerCase()] = glossary.terms[term];
+  });
+
+  return Object.assign({}, provider, {
+    translate(text, options) {
+      const masked = mask(text, getRegex(options.to));
+      if (!masked.tokens.length) {
+        return provider.translate(text, options);
+      }
+      const enforced = [];
+      const replacements = masked.tokens.map((token) => {
+        const key = token.toLowerCase();
+        const translation =
+          !doNotTranslate.has(key) && findTranslation(fixedTerms[key], options.to);
+        const replacement = translation || token;
+        const note = translation ? `${token} → ${translation}` : token;
+        if (enforced.indexOf(note) === -1) {
+          enforced.push(note);
+        }
+        return replacement;
+      });
+      return provider.translate(masked.text, options).then((res) =>
+        Object.assign({}, res, {
+          text: unmask(res.text, masked, replacements),
+          glossary: enforced,
+        })
+      );
+    },
+  });
+}
+
+module.exports = {
+  emptyGlossary,
+  loadGlossary,
+  withGlossary,
+};
@@ -0,0 +1,132 @@
+const http = require("http");
+const https = require("https");
+const { URL } = require("url");
+
+/**
+ * @typedef RequestOptions
+ * @property {string} [method] HTTP method, GET by default
+ * @property {Object.<string, string>} [headers] Request headers
+ * @property {string} [body] Raw request body
+ * @property {import("./transport").Transport} [transport] The proxy, certificates and timeout of the connection
+ */
+
+/**
+ * Sends an HTTP(S) request and resolves with the parsed JSON response
+ *
+ * @param {string} url The absolute URL
+ * @param {RequestOptions} [options] Request options
+ * @returns {Promise.<any>}
+ */
+function requestJson(url, options = {}) {
+  const { transport } = options;
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === "http:" ? http : https;
+    const req = client.request(
+      target,
+      {
+        method: options.method || "GET",
+        headers: Object.assign({ Accept: "application/json" }, options.headers),
+        agent: transport ? transport.getAgent(url) : undefined,
+      },
+      (res) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => {
+          if (res.statusCode < 200 || res.statusCode >= 300) {
+            const error = new Error(
+              `${target.host} responded with ${res.statusCode}: ${body.slice(
+                0,
+                200
+              )}`
+            );
+            error.statusCode = res.statusCode;
+            const retryAfter = Number(res.headers["retry-after"]);
+            if (retryAfter > 0) {
+              error.retryAfter = retryAfter * 1000;
+            }
+            reject(error);
+            return;
+          }
+          try {
+            resolve(body ? JSON.parse(body) : null);
+          } catch (e) {
+            reject(new Error(`${target.host} returned an invalid JSON response`));
+          }
+        });
+      }
+    );
+    req.on("error", reject);
+    if (transport) {
+      req.setTimeout(transport.timeout, () => {
+        const error = new Error(`${target.host} did not respond in time`);
+        error.code = "ETIMEDOUT";
+        req.destroy(error);
+      });
+    }
+    if (options.body) {
+      req.write(options.body);
+    }
+    req.end();
+  }).catch((e) => {
+    throw transport ? transport.describeError(e, url) : e;
+  });
+}
+
+/**
+ * Sends a JSON body and resolves with the parsed JSON response
+ *
+ * @param {string} url The absolute URL
+ * @param {Object} data The payload
+ * @param {RequestOptions} [options] Request options
+ * @returns {Promise.<any>}
+ */
+function postJson(url, data, options = {}) {
+  return requestJson(
+    url,
+    Object.assign({}, options, {
+      method: "POST",
+      headers: Object.assign(
+        { "Content-Type": "application/json" },
+        options.headers
+      ),
+      body: JSON.stringify(data),
+    })
+  );
+}
+
+/**
+ * Sends an url-encoded form and resolves with the parsed JSON response
+ *
+ * @param {string} url The absolute URL
+ * @param {Object.<string, string|Array<string>>} data The form fields
+ * @param {RequestOptions} [options] Request options
+ * @returns {Promise.<any>}
+ */
+function postForm(url, data, options = {}) {
+  const form = new URLSearchParams();
+  Object.keys(data).forEach((key) => {
+    if (data[key] !== undefined && data[key] !== null) {
+      // Arrays are sent as repeated fields
+      [].concat(data[key]).forEach((value) => form.append(key, value));
+    }
+  });
+  return requestJson(
+    url,
+    Object.assign({}, options, {
+      method: "POST",
+      headers: Object.assign(
+        { "Content-Type": "application/x-www-form-urlencoded" },
+        options.headers
+      ),
+      body: form.toString(),
+    })
+  );
+}
+
+module.exports = {
+  requestJson,
+  postJson,
+  postForm,
+};
@@ -0,0 +1,190 @@
+/**
+ * A single identifier, optionally made of words joined by `_`, `-` or `.`,
+ * each separator between identifier characters
+ */
+const IDENTIFIER = /^[\p{L}_$][\p{L}\p{N}_$]*(?:[.-][\p{L}\p{N}_$]+)*$/u;
+
+/**
+ * The languages whose identifiers are limited to ASCII letters
+ */
+const ASCII_ONLY = [
+  "bat",
+  "c",
+  "cpp",
+  "css",
+  "less",
+  "lua",
+  "makefile",
+  "objective-c",
+  "objective-cpp",
+  "perl",
+  "powershell",
+  "scss",
+  "shellscript",
+  "sql",
+];
+
+/**
+ * Latin letters NFD doesn't decompose
+ *
+ * @type {Object.<string, string>}
+ */
+const LETTERS = {
+  ß: "ss",
+  æ: "ae",
+  Æ: "AE",
+  œ: "oe",
+  Œ: "OE",
+  ø: "o",
+  Ø: "O",
+  ł: "l",
+  Ł: "L",
+  đ: "d",
+  Đ: "D",
+  ð: "d",
+  þ: "th",
+  Þ: "TH",
+};
+
+function capitalize(word) {
+  if (word.length > 1 && word === word.toUpperCase()) {
+    // Keep acronyms as they are
+    return word;
+  }
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * How each naming convention joins and cases its words
+ *
+ * @type {Object.<string, {separator: string, recase: (word: string, index: number) => string}>}
+ */
+const conventions = {
+  snake: { separator: "_", recase: (word) => word.toLowerCase() },
+  screamingSnake: { separator: "_", recase: (word) => word.toUpperCase() },
+  kebab: { separator: "-", recase: (word) => word.toLowerCase() },
+  dot: { separator: ".", recase: (word) => word.toLowerCase() },
+  camel: {
+    separator: "",
+    recase: (word, i) => (i === 0 ? word.toLowerCase() : capitalize(word)),
+  },
+  pascal: { separator: "", recase: capitalize },
+};
+
+/**
+ * @typedef Identifier
+ * @property {Array<string>} words The words of the identifier
+ * @property {string} convention The naming convention, a key of `conventions`
+ * @property {string} prefix Leading `_` and `$`, kept as they are
+ * @property {string} suffix Trailing `_` and `$`, kept as they are
+ */
+
+/**
+ * Tells the naming convention of an identifier
+ *
+ * @param {string} name The identifier without its leading and trailing `_` and `$`
+ * @returns {string}
+ */
+function detectConvention(name) {
+  const isUpperCase = name === name.toUpperCase() && /\p{Lu}/u.test(name);
+  if (name.indexOf("_") !== -1 || isUpperCase) {
+    return isUpperCase ? "screamingSnake" : "snake";
+  }
+  if (name.indexOf("-") !== -1) {
+    return "kebab";
+  }
+  if (name.indexOf(".") !== -1) {
+    return "dot";
+  }
+  return /^\p{Lu}/u.test(name) ? "pascal" : "camel";
+}
+
+/**
+ * Splits an identifier into words: `XMLHttpRequest` → `XML Http Request`
+ *
+ * @param {string} name
+ * @returns {Array<string>}
+ */
+function splitWords(name) {
+  return name
+    .split(/[_.$-]+/)
+    .map((part) =>
+      part
+        .replace(/(\p{Ll}|\p{N})(\p{Lu})/gu, "$1 $2")
+        .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+    )
+    .join(" ")
+    .split(" ")
+    .filter(Boolean);
+}
+
+/**
+ * Reads the words and the naming convention of an identifier
+ *
+ * @param {string} text
+ * @returns {Identifier|undefined} Nothing when the text isn't an identifier
+ */
+function parseIdentifier(text) {
+  const trimmed = text.trim();
+  if (!IDENTIFIER.test(trimmed)) {
+    return undefined;
+  }
+  const [, prefix, name, suffix] = /^([_$]*)(.*?)([_$]*)$/u.exec(trimmed);
+  const convention = detectConvention(name);
+  const words = splitWords(name).map((word) =>
+    // Acronyms stay upper case, unless the whole identifier is
+    convention !== "screamingSnake" && word.length > 1 && word === word.toUpperCase()
+      ? word
+      : word.toLowerCase()
+  );
+  // Abbreviations such as `e.g` and `i.e` are prose, not identifiers
+  if (!words.length || (words.length > 1 && words.every((word) => word.length === 1))) {
+    return undefined;
+  }
+  return { words, convention, prefix, suffix };
+}
+
+/**
+ * Replaces the letters an ASCII-only language can't take
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+function transliterate(text) {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\x00-\x7f]/g, (char) => LETTERS[char] || " ");
+}
+
+/**
+ * Turns a translated phrase into an identifier following the same
+ * naming convention as the original one
+ *
+ * @param {string} phrase The translation of the identifier words
+ * @param {Identifier} identifier The original identifier
+ * @param {string} [languageId] The language of the document, to drop the invalid characters
+ * @returns {string|undefined} Nothing when no valid character is left
+ */
+function toIdentifier(phrase, identifier, languageId) {
+  let text = phrase.replace(/['’]/g, "");
+  if (ASCII_ONLY.indexOf(languageId) !== -1) {
+    text = transliterate(text);
+  }
+  const words = text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (!words.length) {
+    return undefined;
+  }
+  const { separator, recase } = conventions[identifier.convention];
+  let name = words.map(recase).join(separator);
+  if (/^\p{N}/u.test(name) && !identifier.prefix) {
+    // Identifiers can't start with a digit
+    name = `_${name}`;
+  }
+  return identifier.prefix + name + identifier.suffix;
+}
+
+module.exports = {
+  parseIdentifier,
+  toIdentifier,
+};
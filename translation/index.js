@@ -0,0 +1,100 @@
+const { createProvider } = require("./providers");
+const { withBatching } = require("./batch");
+const { withCache } = require("./cache");
+const { withMasking, defaultPatterns } = require("./mask");
+const { withGlossary } = require("./glossary");
+const { withMemory } = require("./memory");
+const { withPrivacy } = require("./privacy");
+const { LanguageRegistry, normalizeCode, withLanguages } = require("./languages");
+
+/**
+ * The built-in languages, for the lookups without a provider
+ *
+ * @type {LanguageRegistry}
+ */
+const registry = new LanguageRegistry();
+
+/**
+ * Creates the provider selected in the settings, wrapped with
+ * everything the commands and the hover translations have in common
+ *
+ * @param {Object} settings The `vscodeGoogleTranslate` settings
+ * @param {{transport?: import("./transport").Transport, scheduler?: import("./batch").BatchScheduler, cache?: import("./cache").TranslationCache, glossary?: import("./glossary").Glossary, memory?: import("./memory").TranslationMemory, privacy?: import("./privacy").PrivacyGuard, languages?: LanguageRegistry}} [options]
+ * @returns {import("./providers").TranslateProvider}
+ */
+function createTranslator(settings, options = {}) {
+  // Redacted last, so nothing reaches the network unredacted or unlogged
+  let translator = withPrivacy(
+    createProvider(settings, { transport: options.transport }),
+    settings,
+    options.privacy
+  );
+  translator = withLanguages(translator, options.languages || new LanguageRegistry());
+  if (options.scheduler) {
+    translator = withBatching(translator, options.scheduler);
+  }
+  if (options.cache) {
+    translator = withCache(translator, options.cache);
+  }
+  translator = withMasking(
+    translator,
+    settings.protectedPatterns || defaultPatterns
+  );
+  translator = withGlossary(translator, options.glossary);
+  // The approved translations come before the provider and its cache
+  return withMemory(translator, options.memory, {
+    minScore: settings.translationMemoryMinScore,
+    offline: settings.offlineMode,
+  });
+}
+
+/**
+ * Finds the code of a language from its name or its code
+ *
+ * @param {string} value A language name such as "Japanese", or a code such as "ja" or "pt-BR"
+ * @returns {string|undefined} Nothing for "auto" and unknown languages
+ */
+function resolveLanguage(value) {
+  return registry.resolve(value);
+}
+
+/**
+ * The English name of a language, its code when it has none
+ *
+ * @param {string} code
+ * @returns {string}
+ */
+function getLanguageName(code) {
+  return registry.getName(code);
+}
+
+/**
+ * Tells whether two language codes name the same language. A code
+ * without region matches its regional variants: "en" and "en-GB" do,
+ * "zh-CN" and "zh-TW" don't.
+ *
+ * @param {string} [a]
+ * @param {string} [b]
+ * @returns {boolean}
+ */
+function isSameLanguage(a, b) {
+  if (!a || !b) {
+    return false;
+  }
+  // "iw" and "he" name Hebrew
+  const [x, y] = [a, b].map((code) => (normalizeCode(code) || code).toLowerCase());
+  if (x === y) {
+    return true;
+  }
+  return (
+    (x.indexOf("-") === -1 || y.indexOf("-") === -1) &&
+    x.split("-")[0] === y.split("-")[0]
+  );
+}
+
+module.exports = {
+  createTranslator,
+  getLanguageName,
+  isSameLanguage,
+  resolveLanguage,
+};
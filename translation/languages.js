@@ -0,0 +1,377 @@
+const builtinLanguages = require("../languages.js");
+
+// language[-Script][-REGION], such as pt, pt-BR, zh-Hant or es-419
+const CODE = /^[a-z]{2,3}(?:-[a-z]{4})?(?:-(?:[a-z]{2}|\d{3}))?$/i;
+
+/**
+ * The deprecated codes some services still use, and their current code
+ *
+ * @type {Object.<string, string>}
+ */
+const deprecatedCodes = {
+  iw: "he",
+  jw: "jv",
+  in: "id",
+  ji: "yi",
+  mo: "ro",
+};
+
+/**
+ * The codes naming the same language, for the services knowing only one of them
+ *
+ * @type {Array<Array<string>>}
+ */
+const equivalentCodes = [
+  ["he", "iw"],
+  ["jv", "jw"],
+  ["fil", "tl"],
+  ["nb", "no"],
+  ["zh-CN", "zh-Hans", "zh"],
+  ["zh-TW", "zh-Hant"],
+];
+
+/**
+ * @typedef LanguageInfo
+ * @property {string} code The BCP-47 code, such as `pt-BR`
+ * @property {string} name The English name
+ * @property {string} localizedName The name in the language of the user interface
+ */
+
+/**
+ * Writes a BCP-47 code with the usual case, `pt_br` as `pt-BR`
+ *
+ * @param {string} value
+ * @returns {string|undefined} Nothing when the value isn't a language code
+ */
+function normalizeCode(value) {
+  const code = String(value || "").trim().replace(/_/g, "-");
+  if (!CODE.test(code)) {
+    return undefined;
+  }
+  const [language, ...subtags] = code.split("-");
+  const base = language.toLowerCase();
+  return [deprecatedCodes[base] || base]
+    .concat(
+      subtags.map((subtag) =>
+        subtag.length === 4
+          ? subtag[0].toUpperCase() + subtag.slice(1).toLowerCase()
+          : subtag.toUpperCase()
+      )
+    )
+    .join("-");
+}
+
+/**
+ * Names the languages in a locale, nothing when the runtime can't
+ *
+ * @param {string} [locale]
+ * @returns {any}
+ */
+function createDisplayNames(locale) {
+  if (typeof Intl === "undefined" || typeof Intl.DisplayNames !== "function") {
+    return null;
+  }
+  try {
+    return new Intl.DisplayNames([locale || "en"], { type: "language", fallback: "none" });
+  } catch (e) {
+    // An invalid locale
+    return null;
+  }
+}
+
+/**
+ * The languages the commands and the settings accept: the built-in ones,
+ * then the ones of the translation provider once they are loaded. A language
+ * is found by its code, a regional variant such as `pt-BR` or `zh-Hant`, its
+ * English name, its name in the language of the user interface or an alias.
+ */
+class LanguageRegistry {
+  /**
+   * @param {{displayLocale?: string}} [options] `displayLocale` is the language of the user interface
+   */
+  constructor(options = {}) {
+    this._englishNames = createDisplayNames("en");
+    this._localNames = createDisplayNames(options.displayLocale);
+    /** @type {Array<{name: string, value: string, aliases?: Array<string>}>} */
+    this._builtin = builtinLanguages;
+    /**
+     * The languages of the provider, by normalized code
+     *
+     * @type {Map<string, string>|null}
+     */
+    this._provided = null;
+    /**
+     * The codes of the provider as it writes them, by lower case code
+     *
+     * @type {Map<string, string>}
+     */
+    this._providerCodes = new Map();
+    this._providerId = undefined;
+    /** @type {Promise<void>|null} */
+    this._loading = null;
+    /** @type {Map<string, string>|null} */
+    this._byName = null;
+  }
+
+  /**
+   * Asks a provider for its languages, once per provider. The built-in
+   * languages are kept when it can't tell.
+   *
+   * @param {import("./providers").TranslateProvider} provider
+   * @returns {Promise<void>}
+   */
+  load(provider) {
+    if (this._loading && this._providerId === provider.id) {
+      return this._loading;
+    }
+    this._providerId = provider.id;
+    const loading = Promise.resolve()
+      .then(() => provider.getLanguages())
+      .then(
+        (languages) => {
+          if (this._loading !== loading) {
+            return;
+          }
+          this._setProvided(languages || []);
+        },
+        () => {
+          if (this._loading === loading) {
+            this._setProvided(null);
+          }
+        }
+      );
+    this._loading = loading;
+    return loading;
+  }
+
+  /**
+   * Forgets the languages of the provider, when its settings change
+   */
+  clear() {
+    this._loading = null;
+    this._providerId = undefined;
+    this._setProvided(null);
+  }
+
+  _setProvided(languages) {
+    this._provided = null;
+    this._providerCodes = new Map();
+    if (languages) {
+      this._provided = new Map();
+      languages.forEach((language) => {
+        const code = normalizeCode(language.value);
+        if (!code) {
+          return;
+        }
+        this._providerCodes.set(language.value.toLowerCase(), language.value);
+        if (!this._provided.has(code)) {
+          this._provided.set(code, language.name);
+        }
+      });
+    }
+    this._byName = null;
+  }
+
+  /**
+   * The codes of the languages looked up by name, in lower case
+   *
+   * @returns {Map<string, string>}
+   */
+  _getNames() {
+    if (this._byName) {
+      return this._byName;
+    }
+    const names = new Map();
+    const add = (name, code) => {
+      const key = String(name || "").trim().toLowerCase();
+      if (key && !names.has(key)) {
+        names.set(key, code);
+      }
+    };
+    this._builtin.forEach((language) => {
+      const code = normalizeCode(language.value);
+      add(language.name, code);
+      (language.aliases || []).forEach((alias) => add(alias, code));
+    });
+    if (this._provided) {
+      this._provided.forEach((name, code) => add(name, code));
+    }
+    this.getCodes().forEach((code) => {
+      add(this.getLocalizedName(code), code);
+      add(this._englishNames && this._englishNames.of(code), code);
+    });
+    this._byName = names;
+    return names;
+  }
+
+  /**
+   * Finds the code of a language
+   *
+   * @param {string} value A code such as `pt-BR` or a name such as `Portuguese (Brazil)`
+   * @returns {string|undefined} Nothing for "auto" and unknown languages
+   */
+  resolve(value) {
+    if (typeof value !== "string" || !value.trim() || value.trim() === "auto") {
+      return undefined;
+    }
+    const named = this._getNames().get(value.trim().toLowerCase());
+    if (named) {
+      return named;
+    }
+    const code = normalizeCode(value);
+    return code && this.isKnown(code) ? code : undefined;
+  }
+
+  /**
+   * Tells whether the language of a code is known, by the provider, the
+   * built-in list or the runtime. Any region of a known language is.
+   *
+   * @param {string} code A normalized code
+   * @returns {boolean}
+   */
+  isKnown(code) {
+    const base = code.split("-")[0];
+    const known = (other) => other === code || other.split("-")[0] === base;
+    if (this.getCodes().some(known)) {
+      return true;
+    }
+    return !!(this._englishNames && this._englishNames.of(base));
+  }
+
+  /**
+   * The codes of the languages to pick from: the ones of the provider once
+   * loaded, else the built-in ones
+   *
+   * @returns {Array<string>}
+   */
+  getCodes() {
+    if (this._provided) {
+      return Array.from(this._provided.keys());
+    }
+    return this._builtin.map((language) => normalizeCode(language.value));
+  }
+
+  /**
+   * The English name of a language, its code when it has none
+   *
+   * @param {string} code
+   * @returns {string}
+   */
+  getName(code) {
+    const normalized = normalizeCode(code) || code;
+    const builtin = this._builtin.find((language) => normalizeCode(language.value) === normalized);
+    if (builtin) {
+      return builtin.name;
+    }
+    if (this._provided && this._provided.has(normalized)) {
+      return this._provided.get(normalized);
+    }
+    return (this._englishNames && this._englishNames.of(normalized)) || code;
+  }
+
+  /**
+   * The name of a language in the language of the user interface, its English
+   * name when the runtime can't tell
+   *
+   * @param {string} code
+   * @returns {string}
+   */
+  getLocalizedName(code) {
+    const normalized = normalizeCode(code) || code;
+    return (this._localNames && this._localNames.of(normalized)) || this.getName(code);
+  }
+
+  /**
+   * The languages to pick from, by English name
+   *
+   * @returns {Array<LanguageInfo>}
+   */
+  list() {
+    return this.getCodes()
+      .map((code) => ({
+        code,
+        name: this.getName(code),
+        localizedName: this.getLocalizedName(code),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * The code the provider knows a language by: the same language, another
+   * code of the same language, else the language without its region.
+   * The code is kept when the languages of the provider aren't loaded.
+   *
+   * @param {string} code
+   * @returns {string}
+   */
+  toProvider(code) {
+    if (!code || !this._providerCodes.size) {
+      return code;
+    }
+    const base = code.split("-")[0];
+    const candidates = [code]
+      .concat(getEquivalentCodes(code))
+      .concat(base === code ? [] : [base].concat(getEquivalentCodes(base)));
+    const match = candidates.find((candidate) => this._providerCodes.has(candidate.toLowerCase()));
+    return match ? this._providerCodes.get(match.toLowerCase()) : code;
+  }
+}
+
+/**
+ * @param {string} code
+ * @returns {Array<string>} The other codes of the same language
+ */
+function getEquivalentCodes(code) {
+  const lower = code.toLowerCase();
+  const group = equivalentCodes.find((codes) =>
+    codes.some((other) => other.toLowerCase() === lower)
+  );
+  return group ? group.filter((other) => other.toLowerCase() !== lower) : [];
+}
+
+/**
+ * Wraps a provider so it is given the codes it knows, `pt` for `pt-BR` when
+ * it has no regional variant, and returns normalized codes
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {LanguageRegistry} registry
+ * @returns {import("./providers").TranslateProvider}
+ */
+function withLanguages(provider, registry) {
+  const toProvider = (options) =>
+    Object.assign({}, options, {
+      from: options.from && registry.toProvider(options.from),
+      to: registry.toProvider(options.to),
+    });
+  const fromProvider = (res) =>
+    Object.assign({}, res, { from: res.from && (normalizeCode(res.from) || res.from) });
+
+  const wrapped = Object.assign({}, provider, {
+    translate(text, options) {
+      return registry
+        .load(provider)
+        .then(() => provider.translate(text, toProvider(options)))
+        .then(fromProvider);
+    },
+    detect(text, options) {
+      return registry
+        .load(provider)
+        .then(() => provider.detect(text, options))
+        .then((from) => from && (normalizeCode(from) || from));
+    },
+  });
+  if (provider.translateMany) {
+    wrapped.translateMany = (texts, options) =>
+      registry
+        .load(provider)
+        .then(() => provider.translateMany(texts, toProvider(options)))
+        .then((results) => results.map(fromProvider));
+  }
+  return wrapped;
+}
+
+module.exports = {
+  LanguageRegistry,
+  normalizeCode,
+  withLanguages,
+};
@@ -0,0 +1,142 @@
+/**
+ * What is protected from translation when the settings don't say otherwise
+ *
+ * @type {Array<string>}
+ */
+const defaultPatterns = [
+  // `code spans`
+  "`[^`\\n]+`",
+  // ${template} expressions
+  "\\$\\{[^}\\n]*\\}",
+  // {count} and {0} placeholders
+  "\\{[\\w.]*\\}",
+  // printf placeholders such as %s, %1$d or %.2f
+  "%(\\d+\\$)?[-+ 0#]*\\d*(\\.\\d+)?[sdifuxXoceEgG]",
+  // URLs
+  "\\b(https?|ftp)://[^\\s)\"'<>]+",
+  // function calls such as fooBar()
+  "\\b[A-Za-z_$][\\w$.]*\\([^()\\n]*\\)",
+  // camelCase, PascalCase and snake_case identifiers
+  "\\b[a-z]+[A-Z][\\w$]*\\b",
+  "\\b[A-Z][a-z]+[A-Z][\\w$]*\\b",
+  "\\b[A-Za-z]\\w*_\\w+\\b",
+];
+
+const MARKER = /⟦\s*(\d+)\s*⟧/g;
+
+/**
+ * @typedef MaskedText
+ * @property {string} text The text with opaque markers
+ * @property {Array<string>} tokens The protected tokens, by marker index
+ * @property {number} start The index of the first marker, text masked twice keeps its markers apart
+ */
+
+/**
+ * Compiles the patterns into a single regular expression,
+ * ignoring the invalid ones
+ *
+ * @param {Array<string>} patterns Regular expression sources
+ * @returns {RegExp|null}
+ */
+function compilePatterns(patterns) {
+  const valid = (patterns || []).filter((pattern) => {
+    try {
+      new RegExp(pattern);
+      return !!pattern;
+    } catch (e) {
+      console.error(`Ignoring the invalid protected pattern ${pattern}`, e);
+      return false;
+    }
+  });
+  if (!valid.length) {
+    return null;
+  }
+  return new RegExp(valid.map((pattern) => `(?:${pattern})`).join("|"), "g");
+}
+
+/**
+ * Swaps the protected tokens for opaque markers
+ *
+ * @param {string} text The text to translate
+ * @param {RegExp|null} regex The compiled patterns
+ * @returns {MaskedText}
+ */
+function mask(text, regex) {
+  let start = 0;
+  text.replace(MARKER, (marker, index) => {
+    start = Math.max(start, Number(index) + 1);
+    return marker;
+  });
+  const tokens = [];
+  if (!regex) {
+    return { text, tokens, start };
+  }
+  const masked = text.replace(regex, (token) => {
+    tokens.push(token);
+    return `⟦${start + tokens.length - 1}⟧`;
+  });
+  return { text: masked, tokens, start };
+}
+
+/**
+ * Restores the protected tokens, failing when a marker was lost or altered
+ *
+ * @param {string} text The translated text
+ * @param {MaskedText} masked The result of `mask`
+ * @param {Array<string>} [replacements] What to put back for each token, the tokens themselves by default
+ * @returns {string}
+ */
+function unmask(text, masked, replacements = masked.tokens) {
+  const { tokens, start } = masked;
+  const seen = new Array(tokens.length).fill(0);
+  const restored = text.replace(MARKER, (marker, index) => {
+    const i = Number(index) - start;
+    if (i < 0 || i >= tokens.length) {
+      return marker;
+    }
+    seen[i]++;
+    return replacements[i];
+  });
+  const missing = tokens.filter((token, i) => seen[i] !== 1);
+  if (missing.length) {
+    throw new Error(
+      `The translation lost or duplicated protected text: ${missing.join(", ")}`
+    );
+  }
+  return restored;
+}
+
+/**
+ * Wraps a provider so protected tokens are never sent to it
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {Array<string>} [patterns] Regular expression sources, the defaults when omitted
+ * @returns {import("./providers").TranslateProvider}
+ */
+function withMasking(provider, patterns = defaultPatterns) {
+  const regex = compilePatterns(patterns);
+  return Object.assign({}, provider, {
+    translate(text, options) {
+      const masked = mask(text, regex);
+      if (!masked.tokens.length) {
+        return provider.translate(text, options);
+      }
+      // Nothing left to translate
+      if (!/\p{L}/u.test(masked.text.replace(MARKER, ""))) {
+        return Promise.resolve({ text, from: options.from });
+      }
+      return provider.translate(masked.text, options).then((res) =>
+        Object.assign({}, res, { text: unmask(res.text, masked) })
+      );
+    },
+  });
+}
+
+module.exports = {
+  MARKER,
+  defaultPatterns,
+  compilePatterns,
+  mask,
+  unmask,
+  withMasking,
+};
@@ -0,0 +1,460 @@
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const he = require("he");
+
+/**
+ * @typedef MemoryEntry
+ * @property {string} id
+ * @property {string} source The source text
+ * @property {string} target Its translation
+ * @property {string} from The source language code
+ * @property {string} to The target language code
+ * @property {string} provider The provider id, `tmx` for the imported entries
+ * @property {boolean} approved Whether a user approved the translation, the ones the
+ * commands wrote wait for it and are neither reused nor suggested until then
+ * @property {number} created
+ * @property {number} updated
+ */
+
+/**
+ * @typedef MemoryMatch
+ * @property {MemoryEntry} entry
+ * @property {number} score The similarity of the source texts, 1 for the same text
+ */
+
+const MEMORY_VERSION = 1;
+
+// Longer texts are only matched exactly, the edit distance is quadratic
+const MAX_FUZZY_LENGTH = 1000;
+
+function normalize(text) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function sameLanguage(a, b) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * The Levenshtein distance of two texts, 1 minus the distance divided by the
+ * length of the longest one
+ *
+ * @param {string} a
+ * @param {string} b
+ * @returns {number} Between 0 and 1
+ */
+function similarity(a, b) {
+  a = normalize(a).toLowerCase();
+  b = normalize(b).toLowerCase();
+  if (a === b) {
+    return 1;
+  }
+  const length = Math.max(a.length, b.length);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / length;
+}
+
+/**
+ * The translations, approved or waiting for approval, persisted to a JSON file.
+ *
+ * The extension and the hover server both open the same file, so it is
+ * read again when it changed, and every change is written right away.
+ */
+class TranslationMemory {
+  /**
+   * @param {string} [file] Where to persist the entries, kept in memory only when omitted
+   */
+  constructor(file) {
+    this.file = file;
+    /** @type {Array<MemoryEntry>} */
+    this._entries = [];
+    this._mtime = 0;
+    this._reload();
+  }
+
+  get size() {
+    this._reload();
+    return this._entries.length;
+  }
+
+  /**
+   * @returns {Array<MemoryEntry>} The entries, most recently updated first
+   */
+  entries() {
+    this._reload();
+    return this._entries.slice().sort((a, b) => b.updated - a.updated);
+  }
+
+  /**
+   * Records a translation, replacing the translation of the same text for the
+   * same languages unless only that one is approved
+   *
+   * @param {{source: string, target: string, from: string, to: string, provider?: string, approved?: boolean}} translation
+   * @returns {MemoryEntry|undefined} Nothing when a text or a language is missing
+   */
+  add(translation) {
+    return this.addAll([translation])[0];
+  }
+
+  /**
+   * @param {Array<{source: string, target: string, from: string, to: string, provider?: string, approved?: boolean, created?: number, updated?: number}>} translations Approved unless told otherwise
+   * @returns {Array<MemoryEntry>} The added or updated entries
+   */
+  addAll(translations) {
+    return this._change(() =>
+      translations
+        .filter((t) => normalize(t.source || "") && normalize(t.target || "") && t.from && t.to)
+        .map((t) => {
+          const now = Date.now();
+          const approved = t.approved !== false;
+          const existing = this._find(t.source, t.from, t.to);
+          if (existing && existing.approved && !approved) {
+            return existing;
+          }
+          if (existing) {
+            return Object.assign(existing, {
+              target: t.target,
+              provider: t.provider || existing.provider,
+              approved,
+              updated: t.updated || now,
+            });
+          }
+          const entry = {
+            id: crypto.randomBytes(8).toString("hex"),
+            source: t.source,
+            target: t.target,
+            from: t.from,
+            to: t.to,
+            provider: t.provider || "user",
+            approved,
+            created: t.created || now,
+            updated: t.updated || now,
+          };
+          this._entries.push(entry);
+          return entry;
+        })
+    );
+  }
+
+  /**
+   * Changes an entry as a user asked, which approves it
+   *
+   * @param {string} id
+   * @param {{source?: string, target?: string}} [changes]
+   * @returns {MemoryEntry|undefined} Nothing when the entry was removed meanwhile
+   */
+  update(id, changes = {}) {
+    return this._change(() => {
+      const entry = this._entries.find((e) => e.id === id);
+      if (!entry) {
+        return undefined;
+      }
+      return Object.assign(entry, changes, { approved: true, updated: Date.now() });
+    });
+  }
+
+  /**
+   * @param {string} id
+   * @returns {boolean} Whether the entry was found
+   */
+  remove(id) {
+    return this._change(() => {
+      const index = this._entries.findIndex((e) => e.id === id);
+      if (index !== -1) {
+        this._entries.splice(index, 1);
+      }
+      return index !== -1;
+    });
+  }
+
+  /**
+   * Finds the approved translation of the same text
+   *
+   * @param {string} text
+   * @param {string|undefined} from Any source language when omitted
+   * @param {string} to
+   * @returns {MemoryEntry|undefined}
+   */
+  lookup(text, from, to) {
+    this._reload();
+    const entry = this._find(text, from, to);
+    return entry && entry.approved ? entry : undefined;
+  }
+
+  /**
+   * Finds the approved translations of similar texts
+   *
+   * @param {string} text
+   * @param {{from?: string, to?: string}} languages Any language when omitted
+   * @param {{minScore?: number, limit?: number}} [options]
+   * @returns {Array<MemoryMatch>} The best matches first
+   */
+  suggest(text, { from, to }, { minScore = 0.75, limit = 5 } = {}) {
+    this._reload();
+    const normalized = normalize(text);
+    if (!normalized) {
+      return [];
+    }
+    return this._entries
+      .filter(
+        (entry) =>
+          entry.approved &&
+          (!to || sameLanguage(entry.to, to)) &&
+          (!from || sameLanguage(entry.from, from))
+      )
+      .map((entry) => {
+        const source = normalize(entry.source);
+        // The difference of the lengths bounds the score
+        const bound = Math.min(source.length, normalized.length) / Math.max(source.length, normalized.length);
+        if (bound < minScore) {
+          return null;
+        }
+        if (source === normalized) {
+          return { entry, score: 1 };
+        }
+        if (Math.max(source.length, normalized.length) > MAX_FUZZY_LENGTH) {
+          return null;
+        }
+        return { entry, score: similarity(source, normalized) };
+      })
+      .filter((match) => !!match && match.score >= minScore)
+      .sort((a, b) => b.score - a.score || b.entry.updated - a.entry.updated)
+      .slice(0, limit);
+  }
+
+  /**
+   * Reads the translation units of a TMX document. A unit with more than two
+   * languages gives an entry for each of its translations.
+   *
+   * @param {string} xml
+   * @returns {number} How many entries were added or updated
+   */
+  importTmx(xml) {
+    const header = /<header\b([^>]*)>/.exec(xml);
+    const defaultSource = header ? readAttribute(header[1], "srclang") : undefined;
+    const translations = [];
+    xml.replace(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/g, (raw, attributes, body) => {
+      const variants = [];
+      body.replace(/<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/g, (tuv, tuvAttributes, tuvBody) => {
+        const lang = readAttribute(tuvAttributes, "xml:lang") || readAttribute(tuvAttributes, "lang");
+        const seg = /<seg\b[^>]*>([\s\S]*?)<\/seg>/.exec(tuvBody);
+        if (lang && seg) {
+          // Inline markup such as <ph> or <bpt> holds the native code of the
+          // placeholders and tags, which is kept without the markup around it
+          const text = seg[1].replace(/<[^>]+>/g, "");
+          variants.push({ lang, text: he.decode(text) });
+        }
+        return tuv;
+      });
+      const provider = /<prop\b[^>]*type="x-provider"[^>]*>([^<]*)<\/prop>/.exec(body);
+      const srclang = readAttribute(attributes, "srclang") || defaultSource;
+      const source = variants.find((v) => sameLanguage(v.lang, srclang)) || variants[0];
+      variants
+        .filter((v) => v !== source)
+        .forEach((v) =>
+          translations.push({
+            source: source.text,
+            target: v.text,
+            from: source.lang,
+            to: v.lang,
+            provider: provider ? he.decode(provider[1]) : "tmx",
+            created: parseTmxDate(readAttribute(attributes, "creationdate")),
+            updated: parseTmxDate(readAttribute(attributes, "changedate")),
+          })
+        );
+      return raw;
+    });
+    return this.addAll(translations).length;
+  }
+
+  /**
+   * Writes the approved entries as a TMX 1.4 document
+   *
+   * @returns {string}
+   */
+  exportTmx() {
+    const approved = this.entries().filter((entry) => entry.approved);
+    const units = approved.map((entry) =>
+      [
+        `    <tu tuid="${entry.id}" srclang="${escapeXml(entry.from)}" creationdate="${formatTmxDate(entry.created)}" changedate="${formatTmxDate(entry.updated)}">`,
+        `      <prop type="x-provider">${escapeXml(entry.provider)}</prop>`,
+        `      <tuv xml:lang="${escapeXml(entry.from)}"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+        `      <tuv xml:lang="${escapeXml(entry.to)}"><seg>${escapeXml(entry.target)}</seg></tuv>`,
+        "    </tu>",
+      ].join("\n")
+    );
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      '  <header creationtool="vscode-google-translate" creationtoolversion="1" segtype="paragraph" o-tmf="vscode-google-translate" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+      "  <body>",
+      ...units,
+      "  </body>",
+      "</tmx>",
+      "",
+    ].join("\n");
+  }
+
+  _find(text, from, to) {
+    const normalized = normalize(text);
+    return this._entries.find(
+      (entry) =>
+        sameLanguage(entry.to, to) &&
+        (!from || sameLanguage(entry.from, from)) &&
+        normalize(entry.source) === normalized
+    );
+  }
+
+  /**
+   * Applies a change to the latest entries on disk, then saves them
+   */
+  _change(apply) {
+    this._reload();
+    const result = apply();
+    this._save();
+    return result;
+  }
+
+  _reload() {
+    if (!this.file) {
+      return;
+    }
+    let mtime;
+    try {
+      mtime = fs.statSync(this.file).mtimeMs;
+    } catch (e) {
+      // Nothing was saved yet
+      return;
+    }
+    if (mtime === this._mtime) {
+      return;
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      if (data && data.version === MEMORY_VERSION && Array.isArray(data.entries)) {
+        this._entries = data.entries;
+        this._mtime = mtime;
+      }
+    } catch (e) {
+      console.error(`Unable to read the translation memory ${this.file}`, e);
+    }
+  }
+
+  _save() {
+    if (!this.file) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.${process.pid}.tmp`;
+      fs.writeFileSync(
+        tmp,
+        JSON.stringify({ version: MEMORY_VERSION, entries: this._entries }, null, 1)
+      );
+      fs.renameSync(tmp, this.file);
+      this._mtime = fs.statSync(this.file).mtimeMs;
+    } catch (e) {
+      console.error(`Unable to save the translation memory to ${this.file}`, e);
+    }
+  }
+}
+
+function readAttribute(attributes, name) {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? he.decode(match[1]) : undefined;
+}
+
+function escapeXml(text) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// TMX dates are written 20191231T235959Z
+function formatTmxDate(time) {
+  return new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+function parseTmxDate(value) {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value || "");
+  return match
+    ? Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6])
+    : undefined;
+}
+
+/**
+ * Wraps a provider so the translation memory answers first: the translation
+ * of the same text is used as it is. In offline mode the provider is never
+ * called, the best similar translation is used instead.
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {TranslationMemory} memory
+ * @param {{minScore?: number, offline?: boolean}} [options]
+ * @returns {import("./providers").TranslateProvider}
+ */
+function withMemory(provider, memory, { minScore = 0.75, offline = false } = {}) {
+  if (!memory) {
+    return provider;
+  }
+  const find = (text, options) => {
+    const exact = memory.lookup(text, options.from, options.to);
+    if (exact) {
+      return { entry: exact, score: 1 };
+    }
+    return offline ? memory.suggest(text, options, { minScore, limit: 1 })[0] : undefined;
+  };
+  return Object.assign({}, provider, {
+    translate(text, options) {
+      const match = find(text, options);
+      if (match) {
+        return Promise.resolve({
+          text: match.entry.target,
+          from: match.entry.from,
+          memory: { score: match.score, source: match.entry.source },
+        });
+      }
+      if (offline) {
+        return Promise.reject(
+          new Error("The translation memory has no translation of this text, and the offline mode calls no provider")
+        );
+      }
+      return provider.translate(text, options);
+    },
+    detect(text, options) {
+      if (!offline) {
+        return provider.detect(text, options);
+      }
+      // The language stays unknown without a similar text
+      const [match] = memory.suggest(text, {}, { minScore, limit: 1 });
+      return Promise.resolve(match ? match.entry.from : undefined);
+    },
+    /**
+     * @param {string} text
+     * @param {{from?: string, to: string}} options
+     * @returns {Array<MemoryMatch>}
+     */
+    suggest(text, options) {
+      return memory.suggest(text, options, { minScore });
+    },
+  });
+}
+
+module.exports = {
+  TranslationMemory,
+  similarity,
+  withMemory,
+};
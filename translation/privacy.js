@@ -0,0 +1,210 @@
+const { compilePatterns, mask, unmask } = require("./mask");
+
+/**
+ * The patterns of the built-in detectors, by the name used in the
+ * `redact` setting. Only the value of `password = value` is redacted,
+ * so the translation keeps its meaning.
+ *
+ * @type {Object.<string, Array<string>>}
+ */
+const detectors = {
+  keys: [
+    // PEM private keys
+    "-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----",
+    // AWS access keys
+    "\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b",
+    // Google API keys
+    "\\bAIza[\\w-]{35}\\b",
+    // Stripe secret keys
+    "\\b[sr]k_live_[0-9A-Za-z]{16,}\\b",
+    // api_key: value, password = "value"
+    "(?<=\\b(?:api[_-]?key|secret|token|password|passwd|pwd)[\"']?\\s*[:=]\\s*[\"']?)[^\\s\"',;]{6,}",
+  ],
+  tokens: [
+    // JSON Web Tokens
+    "\\beyJ[\\w-]+\\.eyJ[\\w-]+\\.[\\w-]+",
+    // GitHub tokens
+    "\\bgh[pousr]_[0-9A-Za-z]{36,}\\b",
+    "\\bgithub_pat_\\w{22,}",
+    // Slack tokens
+    "\\bxox[abprs]-[\\w-]{10,}",
+    // Authorization: Bearer value
+    "(?<=\\bBearer\\s+)[\\w.~+/-]{8,}=*",
+  ],
+  emails: ["[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+"],
+  urls: [
+    "\\b(?:https?|ftp|wss?)://[^\\s)\"'<>]+",
+    // The hosts of private networks
+    "\\b[\\w-]+(?:\\.[\\w-]+)*\\.(?:internal|local|localdomain|corp|lan|intranet|home\\.arpa)\\b",
+  ],
+  ips: [
+    "\\b(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\b",
+    // Full or `::` compressed IPv6 addresses with a digit, `std::map` is not one
+    "(?<![\\w:])(?=[\\w:]*\\d)(?:(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}|(?:[0-9A-Fa-f]{1,4}:){1,6}(?::[0-9A-Fa-f]{1,4}){1,6})(?![\\w:])",
+  ],
+};
+
+/**
+ * The files whose text is never sent when the settings don't say otherwise
+ *
+ * @type {Array<string>}
+ */
+const defaultExclude = [
+  "**/.env",
+  "**/.env.*",
+  "**/*.pem",
+  "**/*.key",
+  "**/id_{rsa,dsa,ecdsa,ed25519}",
+  "**/secrets/**",
+];
+
+/**
+ * The `vscodeGoogleTranslate` settings of the redaction
+ *
+ * @typedef PrivacySettings
+ * @property {Array<string>} [redact] The built-in detectors to use, all of them by default
+ * @property {Array<string>} [redactPatterns] Regular expression sources of the other texts to redact
+ */
+
+/**
+ * What was sent to a provider, the redacted text as it left the process
+ *
+ * @typedef SentEntry
+ * @property {string} provider The name of the provider
+ * @property {"translate"|"detect"} kind
+ * @property {string} [from]
+ * @property {string} [to]
+ * @property {Array<string>} texts
+ * @property {number} redacted The number of redacted values
+ */
+
+/**
+ * @typedef PrivacyGuard
+ * @property {(provider: string) => Promise<boolean>} [confirm] Tells whether the texts may be sent to the provider named, asking the user if needed
+ * @property {(entry: SentEntry) => void} [onSend] Called with the texts about to be sent
+ */
+
+/**
+ * Thrown instead of sending a text the user didn't allow to send
+ */
+class PrivacyError extends Error {
+  /**
+   * @param {string} message
+   */
+  constructor(message) {
+    super(message);
+    this.denied = true;
+  }
+}
+
+/**
+ * Compiles the detectors of the settings and the custom patterns into a single
+ * regular expression
+ *
+ * @param {PrivacySettings} settings
+ * @returns {RegExp|null}
+ */
+function compileRedactions(settings) {
+  const names = Array.isArray(settings.redact) ? settings.redact : Object.keys(detectors);
+  const patterns = names
+    .filter((name) => Array.isArray(detectors[name]))
+    .reduce((all, name) => all.concat(detectors[name]), [])
+    .concat(settings.redactPatterns || []);
+  return compilePatterns(patterns);
+}
+
+/**
+ * Puts the redacted values back in the translation. The error never
+ * quotes them, it may be shown or logged.
+ *
+ * @param {string} text
+ * @param {import("./mask").MaskedText} masked
+ * @returns {string}
+ */
+function restore(text, masked) {
+  if (!masked.tokens.length) {
+    return text;
+  }
+  try {
+    return unmask(text, masked);
+  } catch (e) {
+    throw new Error(
+      `The translation lost ${masked.tokens.length === 1 ? "a redacted value" : "redacted values"}`
+    );
+  }
+}
+
+/**
+ * Wraps a provider so the texts are redacted, allowed and logged right
+ * before they are sent. Redacted values are swapped for opaque markers and
+ * put back in the translations.
+ *
+ * @param {import("./providers").TranslateProvider} provider
+ * @param {PrivacySettings} settings
+ * @param {PrivacyGuard} [guard]
+ * @returns {import("./providers").TranslateProvider}
+ */
+function withPrivacy(provider, settings, guard = {}) {
+  const regex = compileRedactions(settings);
+
+  function send(kind, texts, options) {
+    return Promise.resolve(guard.confirm ? guard.confirm(provider.name) : true).then((allowed) => {
+      if (!allowed) {
+        throw new PrivacyError(
+          "Translations are denied in this workspace, run 'Allow or deny translations in this workspace' to allow them"
+        );
+      }
+      const masked = texts.map((text) => mask(text, regex));
+      if (guard.onSend) {
+        guard.onSend({
+          provider: provider.name,
+          kind,
+          from: options.from,
+          to: options.to,
+          texts: masked.map((m) => m.text),
+          redacted: masked.reduce((count, m) => count + m.tokens.length, 0),
+        });
+      }
+      return masked;
+    });
+  }
+
+  const wrapped = Object.assign({}, provider, {
+    translate(text, options) {
+      return send("translate", [text], options).then(([masked]) =>
+        provider.translate(masked.text, options).then((res) =>
+          Object.assign({}, res, { text: restore(res.text, masked) })
+        )
+      );
+    },
+    detect(text, options) {
+      return send("detect", [text], {}).then(([masked]) =>
+        provider.detect(masked.text, options)
+      );
+    },
+    redacts(text) {
+      return !!regex && mask(text, regex).tokens.length > 0;
+    },
+  });
+  if (provider.translateMany) {
+    wrapped.translateMany = (texts, options) =>
+      send("translate", texts, options).then((masked) =>
+        provider
+          .translateMany(masked.map((m) => m.text), options)
+          .then((results) =>
+            results.map((res, i) =>
+              Object.assign({}, res, { text: restore(res.text, masked[i]) })
+            )
+          )
+      );
+  }
+  return wrapped;
+}
+
+module.exports = {
+  PrivacyError,
+  compileRedactions,
+  defaultExclude,
+  detectors,
+  withPrivacy,
+};
@@ -0,0 +1,68 @@
+const { requestJson, postJson } = require("../http");
+
+/**
+ * Generic endpoint speaking a minimal JSON protocol:
+ *
+ * - `POST {url}/translate` with `{ text, from, to }` answers `{ text, from }`
+ * - `POST {url}/detect` with `{ text }` answers `{ language }`
+ * - `GET {url}/languages` answers `[{ name, code }]`
+ *
+ * @param {import("./index").ProviderOptions} options
+ * @returns {import("./index").TranslateProvider}
+ */
+function createCustomProvider(options) {
+  const baseUrl = (options.customEndpointUrl || "").replace(/\/+$/, "");
+  const requestOptions = {
+    transport: options.transport,
+    headers: options.customEndpointHeaders || {},
+  };
+
+  function ensureConfigured() {
+    if (!baseUrl) {
+      return Promise.reject(
+        new Error(
+          "The custom provider requires vscodeGoogleTranslate.customEndpointUrl to be set"
+        )
+      );
+    }
+    return Promise.resolve();
+  }
+
+  return {
+    id: "custom",
+    // The headers may select the model of the endpoint
+    cacheId: `custom ${baseUrl} ${JSON.stringify(requestOptions.headers)}`,
+    name: "Custom endpoint",
+
+    translate(text, { from, to }) {
+      return ensureConfigured()
+        .then(() =>
+          postJson(`${baseUrl}/translate`, { text, from, to }, requestOptions)
+        )
+        .then((res) => {
+          if (!res || typeof res.text !== "string") {
+            throw new Error(`${baseUrl} returned no translation`);
+          }
+          return { text: res.text, from: res.from || from };
+        });
+    },
+
+    limits: { maxChars: 5000, maxSegments: 1 },
+
+    detect(text) {
+      return ensureConfigured()
+        .then(() => postJson(`${baseUrl}/detect`, { text }, requestOptions))
+        .then((res) => (res ? res.language : undefined));
+    },
+
+    getLanguages() {
+      return ensureConfigured()
+        .then(() => requestJson(`${baseUrl}/languages`, requestOptions))
+        .then((res) =>
+          (res || []).map((lang) => ({ name: lang.name, value: lang.code }))
+        );
+    },
+  };
+}
+
+module.exports = createCustomProvider;
@@ -0,0 +1,100 @@
+const { requestJson, postForm } = require("../http");
+
+/**
+ * DeepL only knows regional variants for a few target languages
+ *
+ * @type {Object.<string, string>}
+ */
+const targetAliases = {
+  en: "EN-US",
+  pt: "PT-PT",
+  "zh-cn": "ZH",
+  "zh-tw": "ZH",
+};
+
+function toDeepLTarget(code) {
+  return targetAliases[code.toLowerCase()] || code.toUpperCase();
+}
+
+function toDeepLSource(code) {
+  // Source languages never carry a region in DeepL
+  return code.split("-")[0].toUpperCase();
+}
+
+/**
+ * DeepL API (free keys end with ":fx" and use the free endpoint)
+ *
+ * @param {import("./index").ProviderOptions} options
+ * @returns {import("./index").TranslateProvider}
+ */
+function createDeepLProvider(options) {
+  const apiKey = options.deeplApiKey;
+  const baseUrl =
+    apiKey && apiKey.endsWith(":fx")
+      ? "https://api-free.deepl.com/v2"
+      : "https://api.deepl.com/v2";
+  const requestOptions = {
+    transport: options.transport,
+    headers: { Authorization: `DeepL-Auth-Key ${apiKey}` },
+  };
+
+  function translateMany(texts, { from, to }) {
+    if (!apiKey) {
+      return Promise.reject(
+        new Error("DeepL requires vscodeGoogleTranslate.deeplApiKey to be set")
+      );
+    }
+    return postForm(
+      `${baseUrl}/translate`,
+      {
+        text: texts,
+        target_lang: toDeepLTarget(to),
+        source_lang: from && from !== "auto" ? toDeepLSource(from) : undefined,
+      },
+      requestOptions
+    ).then((res) => {
+      const translations = (res && res.translations) || [];
+      if (translations.length !== texts.length) {
+        throw new Error("DeepL returned no translation");
+      }
+      return translations.map((translation) => ({
+        text: translation.text,
+        from: translation.detected_source_language
+          ? translation.detected_source_language.toLowerCase()
+          : undefined,
+      }));
+    });
+  }
+
+  function translate(text, options) {
+    return translateMany([text], options).then((results) => results[0]);
+  }
+
+  return {
+    id: "deepl",
+    name: "DeepL",
+
+    translate,
+
+    translateMany,
+
+    limits: { maxChars: 30000, maxSegments: 50 },
+
+    detect(text) {
+      // DeepL has no detection endpoint, the source language comes with a translation
+      return translate(text, { to: "en" }).then((res) => res.from);
+    },
+
+    getLanguages() {
+      return requestJson(`${baseUrl}/languages?type=target`, requestOptions).then(
+        (res) =>
+          (res || []).map((lang) => ({
+            name: lang.name,
+            value: lang.language.toLowerCase(),
+          }))
+      );
+    },
+  };
+}
+
+module.exports = createDeepLProvider;
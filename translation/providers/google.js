@@ -0,0 +1,61 @@
+const gti = require("@vitalets/google-translate-api");
+
+// The host the web endpoint is reached at
+const GOOGLE_URL = "https://translate.google.com";
+
+/**
+ * Google Translate through the public web endpoint
+ *
+ * @param {import("./index").ProviderOptions} options
+ * @returns {import("./index").TranslateProvider}
+ */
+function createGoogleProvider(options) {
+  const { transport } = options;
+
+  function request(text, translateOptions) {
+    const gotopts = { headers: {} };
+    if (transport) {
+      try {
+        gotopts.agent = transport.getAgent(GOOGLE_URL);
+      } catch (e) {
+        return Promise.reject(e);
+      }
+      gotopts.timeout = transport.timeout;
+    }
+    return gti(text, translateOptions, gotopts).catch((e) => {
+      throw transport ? transport.describeError(e, GOOGLE_URL) : e;
+    });
+  }
+
+  return {
+    id: "google",
+    name: "Google Translate",
+
+    translate(text, { from, to }) {
+      return request(text, { from: from || "auto", to }).then((res) => ({
+        text: res.text,
+        from: res.from.language.iso || undefined,
+      }));
+    },
+
+    // The web endpoint rejects texts longer than 5000 characters
+    limits: { maxChars: 5000, maxSegments: 1 },
+
+    detect(text) {
+      return request(text, { from: "auto", to: "en" }).then(
+        (res) => res.from.language.iso || undefined
+      );
+    },
+
+    getLanguages() {
+      const langs = gti.languages;
+      return Promise.resolve(
+        Object.keys(langs)
+          .filter((code) => code !== "auto" && typeof langs[code] === "string")
+          .map((code) => ({ name: langs[code], value: code }))
+      );
+    },
+  };
+}
+
+module.exports = createGoogleProvider;
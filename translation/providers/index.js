@@ -0,0 +1,97 @@
+const createGoogleProvider = require("./google");
+const createDeepLProvider = require("./deepl");
+const createLibreTranslateProvider = require("./libretranslate");
+const createCustomProvider = require("./custom");
+const { Transport } = require("../transport");
+
+/**
+ * @typedef TranslateOptions
+ * @property {string} [from] Source language code, detected when omitted or "auto"
+ * @property {string} to Target language code
+ * @property {number} [priority] The priority of the request in the scheduler, see `Priority`
+ * @property {import("../batch").CancellationToken} [token] Cancels the request while it waits to be sent
+ */
+
+/**
+ * @typedef TranslateResult
+ * @property {string} text The translated text
+ * @property {string} [from] The source language, as detected by the provider
+ */
+
+/**
+ * @typedef Language
+ * @property {string} name Display name
+ * @property {string} value Language code
+ */
+
+/**
+ * @typedef TranslateProvider
+ * @property {string} id Identifier used in the settings
+ * @property {string} [cacheId] Tells apart the cached translations of the provider set up
+ * with another server or endpoint, its id by default
+ * @property {string} name Display name
+ * @property {(text: string, options: TranslateOptions) => Promise<TranslateResult>} translate
+ * @property {(texts: Array<string>, options: TranslateOptions) => Promise<Array<TranslateResult>>} [translateMany] Translates several texts in one request
+ * @property {(text: string, options?: import("../batch").RequestOptions) => Promise<string|undefined>} detect
+ * @property {() => Promise<Array<Language>>} getLanguages
+ * @property {(text: string) => boolean} [redacts] Tells whether secrets are taken out of the text before sending it
+ * @property {ProviderLimits} [limits]
+ */
+
+/**
+ * The size of the requests accepted by a provider
+ *
+ * @typedef ProviderLimits
+ * @property {number} maxChars Characters per request, longer texts are split
+ * @property {number} maxSegments Texts per `translateMany` request
+ */
+
+/**
+ * The `vscodeGoogleTranslate` settings read by the providers,
+ * plus how to reach the network
+ *
+ * @typedef ProviderOptions
+ * @property {string} [provider]
+ * @property {string} [deeplApiKey]
+ * @property {string} [libreTranslateUrl]
+ * @property {string} [libreTranslateApiKey]
+ * @property {string} [customEndpointUrl]
+ * @property {Object.<string, string>} [customEndpointHeaders]
+ * @property {import("../transport").Transport} [transport]
+ */
+
+const factories = {
+  google: createGoogleProvider,
+  deepl: createDeepLProvider,
+  libretranslate: createLibreTranslateProvider,
+  custom: createCustomProvider,
+};
+
+/**
+ * Creates the provider selected by the `provider` setting, Google by default
+ *
+ * @param {ProviderOptions} settings The extension settings
+ * @param {{transport?: import("../transport").Transport}} [connection] How to reach the network,
+ * the proxy and timeout of the settings by default
+ * @returns {TranslateProvider}
+ */
+function createProvider(settings, connection = {}) {
+  const id = (settings && settings.provider) || "google";
+  const factory = factories[id];
+  if (!factory) {
+    throw new Error(`Unknown translation provider "${id}"`);
+  }
+  return factory({
+    deeplApiKey: settings.deeplApiKey,
+    libreTranslateUrl: settings.libreTranslateUrl,
+    libreTranslateApiKey: settings.libreTranslateApiKey,
+    customEndpointUrl: settings.customEndpointUrl,
+    customEndpointHeaders: settings.customEndpointHeaders,
+    transport: connection.transport || new Transport(settings),
+  });
+}
+
+module.exports = {
+  createProvider,
+  providerIds: Object.keys(factories),
+};
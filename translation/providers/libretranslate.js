@@ -0,0 +1,91 @@
+const { requestJson, postJson } = require("../http");
+
+/**
+ * LibreTranslate or any self-hosted service exposing the same HTTP API
+ *
+ * @param {import("./index").ProviderOptions} options
+ * @returns {import("./index").TranslateProvider}
+ */
+function createLibreTranslateProvider(options) {
+  const baseUrl = (options.libreTranslateUrl || "https://libretranslate.com").replace(
+    /\/+$/,
+    ""
+  );
+  const apiKey = options.libreTranslateApiKey || undefined;
+  const requestOptions = { transport: options.transport };
+
+  return {
+    id: "libretranslate",
+    cacheId: `libretranslate ${baseUrl}`,
+    name: "LibreTranslate",
+
+    translate(text, { from, to }) {
+      return postJson(
+        `${baseUrl}/translate`,
+        {
+          q: text,
+          source: from || "auto",
+          target: to,
+          format: "text",
+          api_key: apiKey,
+        },
+        requestOptions
+      ).then((res) => {
+        if (!res || typeof res.translatedText !== "string") {
+          throw new Error(`${baseUrl} returned no translation`);
+        }
+        return {
+          text: res.translatedText,
+          from: res.detectedLanguage ? res.detectedLanguage.language : from,
+        };
+      });
+    },
+
+    translateMany(texts, { from, to }) {
+      // `q` also accepts an array, answered with arrays in the same order
+      return postJson(
+        `${baseUrl}/translate`,
+        {
+          q: texts,
+          source: from || "auto",
+          target: to,
+          format: "text",
+          api_key: apiKey,
+        },
+        requestOptions
+      ).then((res) => {
+        if (
+          !res ||
+          !Array.isArray(res.translatedText) ||
+          res.translatedText.length !== texts.length
+        ) {
+          throw new Error(`${baseUrl} returned no translation`);
+        }
+        return res.translatedText.map((text, i) => {
+          const detected = Array.isArray(res.detectedLanguage)
+            ? res.detectedLanguage[i]
+            : undefined;
+          return { text, from: detected ? detected.language : from };
+        });
+      });
+    },
+
+    limits: { maxChars: 5000, maxSegments: 25 },
+
+    detect(text) {
+      return postJson(
+        `${baseUrl}/detect`,
+        { q: text, api_key: apiKey },
+        requestOptions
+      ).then((res) => (res && res[0] ? res[0].language : undefined));
+    },
+
+    getLanguages() {
+      return requestJson(`${baseUrl}/languages`, requestOptions).then((res) =>
+        (res || []).map((lang) => ({ name: lang.name, value: lang.code }))
+      );
+    },
+  };
+}
+
+module.exports = createLibreTranslateProvider;
@@ -0,0 +1,243 @@
+/**
+ * @typedef StringSyntax
+ * @property {string} quote The closing delimiter: `"`, `'`, `` ` ``, `"""` or `'''`,
+ * empty when it is unknown, on the middle lines of a multi-line string
+ * @property {boolean} raw The backslashes are written as they are
+ * @property {boolean} multiline The line breaks are written as they are
+ * @property {boolean} doubled The quote is escaped by doubling it, as in C# verbatim strings
+ * @property {boolean} json Only the JSON escapes are allowed
+ * @property {number} interpolation The number of braces opening an interpolation,
+ * 2 for a C# `$$"""` string, 0 when the literal has none
+ * @property {boolean} doubledBraces The literal braces are escaped by doubling
+ * them, as in Python f-strings and C# `$""` strings
+ */
+
+/**
+ * The prefix and the opening quote of a string literal
+ */
+const OPENING = /([A-Za-z@$]*)("""|'''|["'`])$/;
+
+const JSON_LANGUAGES = ["json", "jsonc", "jsonl", "json5"];
+
+const TEMPLATE_LANGUAGES = [
+  "javascript",
+  "javascriptreact",
+  "typescript",
+  "typescriptreact",
+  "vue",
+  "svelte",
+];
+
+// An interpolation, or an escaped brace of an interpolated literal
+const INTERPOLATION = /\{\{|\}\}|\{[^{}]*\}/g;
+
+const ESCAPE = /\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r?\n|[\s\S])/g;
+
+const SIMPLE_ESCAPES = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  b: "\b",
+  f: "\f",
+  v: "\v",
+  0: "\0",
+};
+
+/**
+ * Tells how a string literal is written from the text opening it
+ *
+ * @param {string} languageId The language of the literal
+ * @param {string} opening The text before the content of the literal on its
+ * line, ending with its prefix and quote
+ * @param {string} [scope] The TextMate scope of the literal, for the middle
+ * lines of the multi-line strings, such as `string.quoted.raw.go`
+ * @returns {StringSyntax}
+ */
+function getStringSyntax(languageId, opening, scope = "") {
+  const match = OPENING.exec(opening);
+  /** @type {StringSyntax} */
+  const syntax = {
+    quote: match ? match[2] : "",
+    raw: false,
+    multiline: false,
+    doubled: false,
+    json: JSON_LANGUAGES.indexOf(languageId) !== -1,
+    interpolation: 0,
+    doubledBraces: false,
+  };
+  if (!match) {
+    // A middle line of a multi-line string, its scope tells how it was opened
+    syntax.raw = /\.raw\b/.test(scope);
+    syntax.multiline = true;
+    if (languageId === "python" && /^string\.interpolated\b/.test(scope)) {
+      syntax.interpolation = 1;
+      syntax.doubledBraces = true;
+    }
+    if (/^string\.template\b/.test(scope) || (syntax.raw && /\.go$/.test(scope))) {
+      syntax.quote = "`";
+    }
+    return syntax;
+  }
+  const prefix = match[1].toLowerCase();
+  const quote = match[2];
+  switch (languageId) {
+    case "python":
+      syntax.raw = prefix.indexOf("r") !== -1;
+      syntax.multiline = quote.length === 3;
+      if (prefix.indexOf("f") !== -1) {
+        syntax.interpolation = 1;
+        syntax.doubledBraces = true;
+      }
+      break;
+    case "csharp":
+      syntax.interpolation = prefix.split("$").length - 1;
+      if (quote === "\"\"\"") {
+        // The braces of a raw string are literal when fewer than the `$`
+        syntax.raw = true;
+        syntax.multiline = true;
+      } else {
+        syntax.doubledBraces = syntax.interpolation > 0;
+        if (prefix.indexOf("@") !== -1) {
+          syntax.raw = true;
+          syntax.multiline = true;
+          syntax.doubled = true;
+        }
+      }
+      break;
+    case "go":
+      syntax.raw = quote === "`";
+      syntax.multiline = quote === "`";
+      break;
+    default:
+      syntax.multiline =
+        quote.length === 3 ||
+        (quote === "`" && TEMPLATE_LANGUAGES.indexOf(languageId) !== -1);
+  }
+  return syntax;
+}
+
+/**
+ * Reads the escape sequences of a string literal, the text translated is
+ * the text the program sees
+ *
+ * @param {string} text The content of the literal, without its quotes
+ * @param {StringSyntax} syntax
+ * @returns {string}
+ */
+function decodeStringLiteral(text, syntax) {
+  if (syntax.doubledBraces) {
+    text = text.replace(INTERPOLATION, (match) =>
+      match === "{{" || match === "}}" ? match[0] : match
+    );
+  }
+  if (syntax.doubled) {
+    return text.split(syntax.quote + syntax.quote).join(syntax.quote);
+  }
+  if (syntax.raw) {
+    return text;
+  }
+  return text.replace(ESCAPE, (match, sequence) => {
+    if (/^\r?\n$/.test(sequence)) {
+      // A backslash at the end of a line continues the string
+      return "";
+    }
+    if (sequence.length > 1) {
+      return String.fromCodePoint(
+        parseInt(sequence.replace(/^[ux]\{?|\}$/g, ""), 16)
+      );
+    }
+    if (SIMPLE_ESCAPES.hasOwnProperty(sequence)) {
+      return SIMPLE_ESCAPES[sequence];
+    }
+    return sequence;
+  });
+}
+
+/**
+ * Escapes the braces of a translation written in an interpolated literal.
+ * The interpolations of the original literal are kept as they are.
+ *
+ * @param {string} text The translation
+ * @param {StringSyntax} syntax
+ * @param {string} source The original content of the literal, escapes included
+ * @returns {string}
+ */
+function escapeBraces(text, syntax, source) {
+  if (syntax.doubledBraces) {
+    const interpolations = (source.match(INTERPOLATION) || []).filter(
+      (match) => match !== "{{" && match !== "}}"
+    );
+    return text.replace(/\{[^{}]*\}|[{}]/g, (match) =>
+      interpolations.indexOf(match) !== -1 ? match : match.replace(/[{}]/g, "$&$&")
+    );
+  }
+  // The braces of a raw string can't be escaped, fewer than the `$` are literal
+  const count = syntax.interpolation;
+  const interpolation = new RegExp(`[{]{${count}}[^{}]*[}]{${count}}`, "g");
+  const interpolations = source.match(interpolation) || [];
+  const literal = text.replace(interpolation, (match) =>
+    interpolations.indexOf(match) !== -1 ? "" : match
+  );
+  if (new RegExp(`[{]{${count}}|[}]{${count}}`).test(literal)) {
+    throw new Error("The translation contains braces and can't be written in this interpolated raw string");
+  }
+  return text;
+}
+
+/**
+ * Escapes a translation to write it back in a string literal, with the same quotes
+ *
+ * @param {string} text The translation
+ * @param {StringSyntax} syntax
+ * @param {string} [source] The original content of the literal, its
+ * interpolations are kept in the translation
+ * @returns {string}
+ * @throws When the literal can't hold the translation, such as a raw string
+ * and a translation containing its quote
+ */
+function encodeStringLiteral(text, syntax, source = "") {
+  const { quote } = syntax;
+  text = text.replace(/\r\n/g, "\n");
+  if (syntax.interpolation) {
+    text = escapeBraces(text, syntax, source);
+  }
+  if (syntax.doubled) {
+    return text.split(quote).join(quote + quote);
+  }
+  if (syntax.raw) {
+    if ((quote && text.indexOf(quote) !== -1) || (!quote && /`|"""|'''/.test(text))) {
+      throw new Error(`The translation contains ${quote || "a triple quote"} and can't be written in a raw string`);
+    }
+    if (!syntax.multiline && text.indexOf("\n") !== -1) {
+      throw new Error("The translation has several lines and can't be written in a raw string");
+    }
+    return text;
+  }
+  let escaped = text.replace(/\\/g, "\\\\");
+  if (syntax.json) {
+    escaped = escaped.replace(/[\u0000-\u001f]/g, (char) => {
+      const simple = { "\n": "\\n", "\t": "\\t", "\r": "\\r", "\b": "\\b", "\f": "\\f" }[char];
+      return simple || "\\u" + char.charCodeAt(0).toString(16).padStart(4, "0");
+    });
+  } else {
+    if (!syntax.multiline) {
+      escaped = escaped.replace(/\n/g, "\\n");
+    }
+    escaped = escaped.replace(/\r/g, "\\r").replace(/\t/g, "\\t");
+  }
+  if (quote.length === 3 || !quote) {
+    // A quote only ends a triple-quoted string next to two others, or at its end
+    const quotes = quote ? quote.charAt(0) : "'\"";
+    return escaped.replace(
+      new RegExp(`([${quotes}])(?=[${quotes}]|$)`, "g"),
+      "\\$1"
+    );
+  }
+  return escaped.split(quote).join("\\" + quote);
+}
+
+module.exports = {
+  getStringSyntax,
+  decodeStringLiteral,
+  encodeStringLiteral,
+};